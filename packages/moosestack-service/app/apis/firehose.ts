@@ -0,0 +1,56 @@
+import express from "express";
+import { WebApp, MooseCache } from "@514labs/moose-lib";
+import { FIREHOSE_STATUS_KEY, FirehoseStatus } from "../workflows/status";
+
+const app = express();
+
+// Logging middleware
+app.use((req, res, next) => {
+  console.log(`[Firehose API] ${req.method} ${req.url}`);
+  next();
+});
+
+// CORS middleware for dashboard
+app.use((req, res, next) => {
+  res.header("Access-Control-Allow-Origin", "*");
+  res.header("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.header("Access-Control-Allow-Headers", "Content-Type");
+  if (req.method === "OPTIONS") {
+    return res.sendStatus(200);
+  }
+  next();
+});
+
+/**
+ * GET /status - Current firehose ingestion status
+ * Returns the active source and endpoint, per-endpoint health scores and
+ * the most recent failovers with their reasons.
+ */
+app.get("/status", async (_req, res) => {
+  try {
+    const cache = await MooseCache.get();
+    const status = await cache.get<FirehoseStatus>(FIREHOSE_STATUS_KEY);
+
+    if (!status) {
+      return res.status(404).json({
+        success: false,
+        error: "No firehose status published yet; is the workflow running?",
+      });
+    }
+
+    res.json({ success: true, ...status });
+  } catch (error) {
+    console.error("[Firehose API] Status error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export const firehoseApi = new WebApp("firehose", app, {
+  mountPath: "/firehose",
+  metadata: {
+    description: "Bluesky firehose ingestion status: active endpoint, health scores and failovers",
+  },
+});
@@ -3,16 +3,790 @@ import {
   WebApp,
   getMooseUtils,
   MooseCache,
+  MooseUtils,
+  Column,
+  MaterializedView,
+  OlapTable,
 } from "@514labs/moose-lib";
+import { createAuthMiddleware } from "@514labs/express-pbkdf2-api-key-auth";
 import { WordTrendsMV } from "../views/wordTrends";
+import { WordAuthorTrendsMV } from "../views/wordAuthorTrends";
+import { PostEngagementMV } from "../views/postEngagement";
+import { PhraseTrendsMV } from "../views/phraseTrends";
+import { HashtagTrendsMV } from "../views/hashtagTrends";
+import { MentionTrendsMV } from "../views/mentionTrends";
+import { LinkDomainTrendsMV } from "../views/linkDomainTrends";
+import { EmojiTrendsMV } from "../views/emojiTrends";
+import { EntityTrendsMV } from "../views/entityTrends";
+import {
+  AccountFlagTable,
+  BlueskyPostPipeline,
+  EmojiOccurrencePipeline,
+  EntityOccurrencePipeline,
+  HashtagOccurrencePipeline,
+  LinkOccurrencePipeline,
+  MentionOccurrencePipeline,
+  PhraseOccurrencePipeline,
+  StopWordTable,
+  WordOccurrencePipeline,
+} from "../ingest/models";
+import {
+  FLAG_OVERRIDES,
+  FlagOverride,
+  loadAccountFlags,
+  overrideAccountFlag,
+} from "../ingest/account-flags";
+import {
+  addStopWords,
+  ALL_LANGUAGES,
+  loadStopWords,
+  normalizeStopWord,
+  removeStopWords,
+} from "../ingest/stop-words";
+import { tokenize } from "../ingest/tokenizer";
 
 const app = express();
 
+// A repost spreads a post further than a like, so it weighs more
+const REPOST_WEIGHT = 2;
+
+// Post types trends can be filtered by (see WordOccurrence.postType)
+const POST_TYPES = ["original", "reply", "quote"];
+
+/**
+ * Read the optional postType filter; undefined means the value is invalid
+ */
+function parsePostType(value: unknown): string | null | undefined {
+  if (value === undefined || value === "") return null;
+  return POST_TYPES.includes(value as string) ? (value as string) : undefined;
+}
+
+const INVALID_POST_TYPE = `postType must be one of: ${POST_TYPES.join(", ")}`;
+
+/**
+ * Read the optional lang filter, a primary language subtag such as "ja" (see
+ * WordOccurrence.lang); undefined means the value is invalid
+ */
+function parseLang(value: unknown): string | null | undefined {
+  if (value === undefined || value === "") return null;
+  const lang = String(value).toLowerCase();
+  return /^([a-z]{2,3}|unknown)$/.test(lang) ? lang : undefined;
+}
+
+const INVALID_LANG = 'lang must be a language subtag such as "ja", or "unknown"';
+
+/**
+ * Read the optional groupBy option: "word" (default) counts each word form on
+ * its own, "stem" merges forms sharing a stem (see WordOccurrence.stem);
+ * undefined means the value is invalid
+ */
+function parseGroupBy(value: unknown): "word" | "stem" | undefined {
+  if (value === undefined || value === "" || value === "word") return "word";
+  return value === "stem" ? "stem" : undefined;
+}
+
+const INVALID_GROUP_BY = "groupBy must be one of: word, stem";
+
+// Most word forms listed per stem
+const MAX_STEM_VARIANTS = 5;
+
+/**
+ * Average post sentiment of the WordTrends (or WordAuthorTrends) rows in a
+ * group, -1 to 1; null when no occurrence was scored, because none came from
+ * an English post or deletions cancel them out
+ */
+function averageSentiment(
+  sql: MooseUtils["sql"],
+  columns: { sentimentCount: Column; sentimentSum: Column } = WordTrendsMV
+    .targetTable.columns,
+) {
+  const { sentimentCount, sentimentSum } = columns;
+  return sql`if(sum(${sentimentCount}) = 0, NULL, round(sum(${sentimentSum}) / sum(${sentimentCount}), 3))`;
+}
+
+/**
+ * Leave out the posts of accounts flagged as bots or spam (see AccountFlag)
+ */
+function notFlagged(sql: MooseUtils["sql"], authorColumn: Column) {
+  const flags = AccountFlagTable.columns;
+  return sql`AND ${authorColumn} NOT IN (
+    SELECT ${flags.authorDid} FROM ${AccountFlagTable} FINAL
+    WHERE ${flags.excluded} = 1
+  )`;
+}
+
+/**
+ * WordAuthorTrends rows since `from` (and up to `to`) with the words of
+ * flagged accounts subtracted. Only those accounts' occurrences are read from
+ * WordOccurrence; they are added back negated, keyed by word and interval, with
+ * the account in `flaggedAuthor` for authorCount. Word queries read it in place
+ * of WordTrends or WordAuthorTrends, since both views count every account.
+ * The authors state is selected by name, as its column renders merged.
+ */
+function wordsWithoutFlagged(sql: MooseUtils["sql"], from: Date, to?: Date) {
+  const authorTrends = WordAuthorTrendsMV.targetTable;
+  const trends = authorTrends.columns;
+  const wordTable = WordOccurrencePipeline.table!;
+  const words = wordTable.columns;
+  const flags = AccountFlagTable.columns;
+  return sql`(
+    SELECT
+      ${trends.word} as word,
+      ${trends.stem} as stem,
+      ${trends.interval} as interval,
+      ${trends.postType} as postType,
+      ${trends.lang} as lang,
+      authors,
+      ${trends.totalCount} as totalCount,
+      ${trends.sentimentSum} as sentimentSum,
+      ${trends.sentimentCount} as sentimentCount,
+      '' as flaggedAuthor
+    FROM ${authorTrends}
+    WHERE ${trends.interval} >= ${formatDateForCH(from)}
+      ${to ? sql`AND ${trends.interval} <= ${formatDateForCH(to)}` : sql``}
+    UNION ALL
+    SELECT
+      ${words.word} as word,
+      ${words.stem} as stem,
+      toStartOfInterval(${words.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
+      ${words.postType} as postType,
+      ${words.lang} as lang,
+      uniqState(${words.authorDid}) as authors,
+      -sum(${words.count}) as totalCount,
+      -sum(ifNull(${words.sentiment}, 0) * ${words.count}) as sentimentSum,
+      -sumIf(${words.count}, isNotNull(${words.sentiment})) as sentimentCount,
+      ${words.authorDid} as flaggedAuthor
+    FROM ${wordTable}
+    WHERE ${words.intervalTimestamp} >= ${formatDateForCH(from)}
+      ${to ? sql`AND ${words.intervalTimestamp} <= ${formatDateForCH(to)}` : sql``}
+      AND ${words.authorDid} IN (
+        SELECT ${flags.authorDid} FROM ${AccountFlagTable} FINAL
+        WHERE ${flags.excluded} = 1
+      )
+    GROUP BY word, stem, interval, postType, lang, flaggedAuthor
+  )`;
+}
+
+/**
+ * Distinct authors of a group of WordAuthorTrends rows, or of
+ * wordsWithoutFlagged rows less the flagged accounts among them. Those
+ * accounts are already in the view's author states, so merging theirs again
+ * changes nothing and they are subtracted instead. The authors column renders
+ * as uniqMerge(authors).
+ */
+function authorCount(sql: MooseUtils["sql"], includeFlagged: boolean) {
+  const { authors } = WordAuthorTrendsMV.targetTable.columns;
+  return includeFlagged
+    ? sql`${authors}`
+    : sql`greatest(0, toInt64(${authors}) - toInt64(uniqExactIf(flaggedAuthor, flaggedAuthor != '')))`;
+}
+
+// Ways to rank words in /top
+const RANK_BYS = ["occurrences", "engagement", "authors", "blended"];
+
+/**
+ * Read the optional rankBy option, "occurrences" by default; undefined means
+ * the value is invalid
+ */
+function parseRankBy(value: unknown): string | undefined {
+  if (value === undefined || value === "") return "occurrences";
+  return RANK_BYS.includes(value as string) ? (value as string) : undefined;
+}
+
+const INVALID_RANK_BY = `rankBy must be one of: ${RANK_BYS.join(", ")}`;
+
+// Ways to count a word per interval in /search
+const COUNT_BYS = ["occurrences", "authors", "blended"];
+
+/**
+ * Read the optional countBy option, "occurrences" by default; undefined means
+ * the value is invalid
+ */
+function parseCountBy(value: unknown): string | undefined {
+  if (value === undefined || value === "") return "occurrences";
+  return COUNT_BYS.includes(value as string) ? (value as string) : undefined;
+}
+
+const INVALID_COUNT_BY = `countBy must be one of: ${COUNT_BYS.join(", ")}`;
+
+/**
+ * Blended score of a word: distinct authors, scaled up by how often each
+ * repeats the word on a log scale, so one account posting a word 10,000 times
+ * weighs about as much as ten accounts posting it once
+ */
+function blendedScore(sql: MooseUtils["sql"]) {
+  return sql`round(authorCount * (1 + log(greatest(occurrences, authorCount) / authorCount)), 2)`;
+}
+
+/**
+ * Normalize a phrase the way phrase extraction does, e.g. "Supreme  Court!"
+ * becomes "supreme court"
+ */
+function normalizePhrase(value: unknown): string {
+  return typeof value === "string" ? tokenize(value).join(" ") : "";
+}
+
+/**
+ * Read a phrase of at least two words, normalized; empty if the value is not one
+ */
+function parsePhrase(value: unknown): string {
+  const phrase = normalizePhrase(value);
+  return phrase.includes(" ") ? phrase : "";
+}
+
+/**
+ * Normalize a hashtag the way hashtag extraction does, e.g. "#AI" becomes "ai"
+ */
+function normalizeHashtag(value: unknown): string {
+  return typeof value === "string"
+    ? value.normalize("NFKC").trim().replace(/^#+/, "").toLowerCase()
+    : "";
+}
+
+/**
+ * Read a DID, e.g. "did:plc:abc123"; empty if the value is not one
+ */
+function normalizeDid(value: unknown): string {
+  const did = typeof value === "string" ? value.trim() : "";
+  return /^did:[a-z]+:[a-zA-Z0-9._:%-]+$/.test(did) ? did : "";
+}
+
+/**
+ * Normalize a domain the way link extraction does, e.g. "WWW.Example.com"
+ * becomes "example.com"
+ */
+function normalizeDomain(value: unknown): string {
+  return typeof value === "string"
+    ? value.trim().toLowerCase().replace(/^www\./, "")
+    : "";
+}
+
+// Entity types trends can be filtered by (see EntityOccurrence.type)
+const ENTITY_TYPES = ["person", "organization", "place", "candidate"];
+
+/**
+ * Read the optional entity type filter; undefined means the value is invalid
+ */
+function parseEntityType(value: unknown): string | null | undefined {
+  if (value === undefined || value === "") return null;
+  return ENTITY_TYPES.includes(value as string) ? (value as string) : undefined;
+}
+
+const INVALID_ENTITY_TYPE = `type must be one of: ${ENTITY_TYPES.join(", ")}`;
+
+/**
+ * Normalize an entity name the way entity extraction does, e.g. " New  York"
+ * becomes "New York"; case is kept
+ */
+function normalizeEntity(value: unknown): string {
+  return typeof value === "string"
+    ? value.normalize("NFKC").trim().replace(/\s+/g, " ")
+    : "";
+}
+
+// Most words one stop-word request may change
+const MAX_STOP_WORDS_PER_REQUEST = 1000;
+
+/**
+ * Read a stop-word change, `{ lang, words }`, from a request body; returns an
+ * error message when it is invalid
+ */
+function parseStopWordChange(
+  body: unknown,
+): { lang: string; words: string[] } | string {
+  const fields: { lang?: unknown; words?: unknown } =
+    typeof body === "object" && body !== null ? body : {};
+  const lang =
+    fields.lang === ALL_LANGUAGES ? ALL_LANGUAGES : parseLang(fields.lang);
+  if (!lang) {
+    return `lang must be a language subtag such as "en", "unknown" or "${ALL_LANGUAGES}"`;
+  }
+
+  const words = fields.words;
+  if (
+    !Array.isArray(words) ||
+    words.length === 0 ||
+    words.length > MAX_STOP_WORDS_PER_REQUEST ||
+    !words.every((word) => typeof word === "string")
+  ) {
+    return `words must be an array of 1 to ${MAX_STOP_WORDS_PER_REQUEST} strings`;
+  }
+  const normalized = words.map(normalizeStopWord);
+  if (normalized.some((word) => word.length === 0 || /\s/.test(word))) {
+    return "words must be single, non-empty words";
+  }
+  return { lang, words: normalized };
+}
+
 // Format date for ClickHouse (YYYY-MM-DD HH:MM:SS format)
 function formatDateForCH(date: Date): string {
   return date.toISOString().slice(0, 19).replace("T", " ");
 }
 
+/**
+ * Columns shared by the phrase, hashtag, mention, link domain, emoji and
+ * entity trends views
+ */
+interface TermTrend {
+  interval: Date;
+  postType: string;
+  lang: string;
+  totalCount: number;
+}
+
+/**
+ * Columns shared by the occurrence tables behind the term trends views
+ */
+interface TermOccurrence {
+  intervalTimestamp: Date;
+  count: number;
+  authorDid: string;
+  postType: string;
+  lang: string;
+}
+
+/**
+ * A trends view counting one kind of term, e.g. HashtagTrends and its hashtag,
+ * and the occurrence table it aggregates
+ */
+interface TermTrends<T extends TermTrend, O extends TermOccurrence> {
+  view: MaterializedView<T>;
+  occurrences: OlapTable<O>;
+  /** Column of the term in both tables; also its query param and response field */
+  term: keyof T & keyof O & string;
+  /** Segment of the endpoints' cache keys, e.g. "hashtags" */
+  cacheName: string;
+  /** Name in error logs, e.g. "Hashtag" */
+  label: string;
+}
+
+/**
+ * Check a term trends view's settings, keeping its row type for the handlers
+ */
+function termTrends<T extends TermTrend, O extends TermOccurrence>(
+  trends: TermTrends<T, O>,
+): TermTrends<T, O> {
+  return trends;
+}
+
+/**
+ * Rows of a term trends view since `from` (and up to `to`), with the
+ * occurrences of flagged accounts subtracted as in wordsWithoutFlagged, or the
+ * view itself with includeFlagged. `keys` are the columns kept besides
+ * interval, postType, lang and totalCount.
+ */
+function termRows<T extends TermTrend, O extends TermOccurrence>(
+  sql: MooseUtils["sql"],
+  trends: TermTrends<T, O>,
+  keys: (keyof T & keyof O & string)[],
+  includeFlagged: boolean,
+  from: Date,
+  to?: Date,
+) {
+  const table = trends.view.targetTable;
+  if (includeFlagged) return table;
+
+  const columns = table.columns;
+  const occurrences = trends.occurrences.columns;
+  const flags = AccountFlagTable.columns;
+  const list = (items: ReturnType<MooseUtils["sql"]>[]) =>
+    items.reduce((all, item) => sql`${all}, ${item}`);
+  return sql`(
+    SELECT
+      ${list(keys.map((key) => sql`${columns[key]}`))},
+      ${columns.interval} as interval,
+      ${columns.postType} as postType,
+      ${columns.lang} as lang,
+      ${columns.totalCount} as totalCount
+    FROM ${table}
+    WHERE ${columns.interval} >= ${formatDateForCH(from)}
+      ${to ? sql`AND ${columns.interval} <= ${formatDateForCH(to)}` : sql``}
+    UNION ALL
+    SELECT
+      ${list(keys.map((key) => sql`${occurrences[key]}`))},
+      toStartOfInterval(${occurrences.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
+      ${occurrences.postType} as postType,
+      ${occurrences.lang} as lang,
+      -sum(${occurrences.count}) as totalCount
+    FROM ${trends.occurrences}
+    WHERE ${occurrences.intervalTimestamp} >= ${formatDateForCH(from)}
+      ${to ? sql`AND ${occurrences.intervalTimestamp} <= ${formatDateForCH(to)}` : sql``}
+      AND ${occurrences.authorDid} IN (
+        SELECT ${flags.authorDid} FROM ${AccountFlagTable} FINAL
+        WHERE ${flags.excluded} = 1
+      )
+    GROUP BY ${list(keys.map((key) => sql`${occurrences[key]}`))}, interval, postType, lang
+  )`;
+}
+
+/**
+ * Optional filter on a column of a term trends view, read from the query param
+ * of the same name
+ */
+interface TermFilter<T extends TermTrend, O extends TermOccurrence> {
+  column: keyof T & keyof O & string;
+  /** Read the param; null means no filter, undefined means the value is invalid */
+  parse: (value: unknown) => string | number | null | undefined;
+  invalid: string;
+}
+
+/**
+ * Read the optional phrase size filter; undefined means the value is invalid
+ */
+function parsePhraseSize(value: unknown): number | null | undefined {
+  if (value === undefined || value === "") return null;
+  const size = parseInt(value as string);
+  return size === 2 || size === 3 ? size : undefined;
+}
+
+/**
+ * Handler for GET /<terms>/search: one term's count per interval
+ */
+function termSearch<T extends TermTrend, O extends TermOccurrence>(
+  trends: TermTrends<T, O> & {
+    /** Read the term param; empty when it is missing or invalid */
+    parse: (value: unknown) => string;
+    /** Error when the term param is missing or invalid */
+    required: string;
+  },
+): express.RequestHandler {
+  return async (req, res) => {
+    const { client, sql } = await getMooseUtils();
+    const term = trends.parse(req.query[trends.term]);
+    const postType = parsePostType(req.query.postType);
+    const lang = parseLang(req.query.lang);
+    const includeFlagged = req.query.includeFlagged === "true";
+
+    if (!term) {
+      return res.status(400).json({ error: trends.required });
+    }
+    if (postType === undefined) {
+      return res.status(400).json({ error: INVALID_POST_TYPE });
+    }
+    if (lang === undefined) {
+      return res.status(400).json({ error: INVALID_LANG });
+    }
+
+    // Default time range: last hour
+    const now = new Date();
+    const defaultFrom = new Date(now.getTime() - 60 * 60 * 1000);
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : defaultFrom;
+    const to = req.query.to ? new Date(req.query.to as string) : now;
+
+    try {
+      // Check cache first
+      const cache = await MooseCache.get();
+      const cacheKey = `trends:${trends.cacheName}:search:${term}:${from.toISOString()}:${to.toISOString()}:${postType ?? "all"}:${lang ?? "all"}:${includeFlagged}`;
+      const cached = await cache.get<any[]>(cacheKey);
+      if (cached) {
+        return res.json({ success: true, cached: true, data: cached });
+      }
+
+      const columns = trends.view.targetTable.columns;
+      const rows = termRows(sql, trends, [trends.term], includeFlagged, from, to);
+      const query = sql`
+        SELECT
+          ${columns.interval} as interval,
+          sum(${columns.totalCount}) as count
+        FROM ${rows}
+        WHERE ${columns[trends.term]} = ${term}
+          AND ${columns.interval} >= ${formatDateForCH(from)}
+          AND ${columns.interval} <= ${formatDateForCH(to)}
+          ${postType !== null ? sql`AND ${columns.postType} = ${postType}` : sql``}
+          ${lang !== null ? sql`AND ${columns.lang} = ${lang}` : sql``}
+        GROUP BY ${columns.interval}
+        ORDER BY ${columns.interval} ASC
+      `;
+
+      const result = await client.query.execute(query);
+      const data = await result.json();
+
+      // Cache for 30 seconds
+      await cache.set(cacheKey, data, 30);
+
+      res.json({
+        success: true,
+        [trends.term]: term,
+        from,
+        to,
+        postType,
+        lang,
+        includeFlagged,
+        data,
+      });
+    } catch (error) {
+      console.error(`[Trends API] ${trends.label} search error:`, error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+/**
+ * Handler for GET /<terms>/top: the terms counted most in the last minutes
+ */
+function termTop<T extends TermTrend, O extends TermOccurrence>(
+  trends: TermTrends<T, O> & {
+    filters?: TermFilter<T, O>[];
+    /** Columns listed and grouped alongside the term, e.g. an entity's type */
+    details?: (keyof T & keyof O & string)[];
+  },
+): express.RequestHandler {
+  const filters = trends.filters ?? [];
+  const keys = [trends.term, ...(trends.details ?? [])];
+  // Columns the rows need, for grouping or filtering
+  const rowKeys = Array.from(
+    new Set([...keys, ...filters.map((filter) => filter.column)]),
+  );
+
+  return async (req, res) => {
+    const { client, sql } = await getMooseUtils();
+    const minutes = parseInt(req.query.minutes as string) || 5;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const postType = parsePostType(req.query.postType);
+    const lang = parseLang(req.query.lang);
+    const includeFlagged = req.query.includeFlagged === "true";
+
+    const filterValues: Record<string, string | number | null> = {};
+    for (const filter of filters) {
+      const value = filter.parse(req.query[filter.column]);
+      if (value === undefined) {
+        return res.status(400).json({ error: filter.invalid });
+      }
+      filterValues[filter.column] = value;
+    }
+    if (postType === undefined) {
+      return res.status(400).json({ error: INVALID_POST_TYPE });
+    }
+    if (lang === undefined) {
+      return res.status(400).json({ error: INVALID_LANG });
+    }
+
+    try {
+      // Check cache first
+      const cache = await MooseCache.get();
+      const filterKey = filters
+        .map((filter) => `${filterValues[filter.column] ?? "all"}:`)
+        .join("");
+      const cacheKey = `trends:${trends.cacheName}:top:${minutes}:${limit}:${filterKey}${postType ?? "all"}:${lang ?? "all"}:${includeFlagged}`;
+      const cached = await cache.get<any[]>(cacheKey);
+      if (cached) {
+        return res.json({ success: true, cached: true, data: cached });
+      }
+
+      const cutoff = new Date(Date.now() - minutes * 60 * 1000);
+
+      const columns = trends.view.targetTable.columns;
+      const rows = termRows(sql, trends, rowKeys, includeFlagged, cutoff);
+      const keyColumns = keys
+        .map((key) => sql`${columns[key]}`)
+        .reduce((list, column) => sql`${list}, ${column}`);
+      const filterConditions = filters.map((filter) => {
+        const value = filterValues[filter.column];
+        return value !== null
+          ? sql`AND ${columns[filter.column]} = ${value}`
+          : sql``;
+      });
+
+      const query = sql`
+        SELECT
+          ${keyColumns},
+          sum(${columns.totalCount}) as total
+        FROM ${rows}
+        WHERE ${columns.interval} >= ${formatDateForCH(cutoff)}
+          ${filterConditions.reduce((all, condition) => sql`${all} ${condition}`, sql``)}
+          ${postType !== null ? sql`AND ${columns.postType} = ${postType}` : sql``}
+          ${lang !== null ? sql`AND ${columns.lang} = ${lang}` : sql``}
+        GROUP BY ${keyColumns}
+        ORDER BY total DESC
+        LIMIT ${limit}
+      `;
+
+      const result = await client.query.execute(query);
+      const data = await result.json();
+
+      // Cache for 15 seconds for top trending
+      await cache.set(cacheKey, data, 15);
+
+      res.json({
+        success: true,
+        minutes,
+        limit,
+        ...filterValues,
+        postType,
+        lang,
+        includeFlagged,
+        data,
+      });
+    } catch (error) {
+      console.error(`[Trends API] ${trends.label} top error:`, error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+/** Time range and filters shared by every term of a comparison */
+interface CompareRange {
+  from: Date;
+  to: Date;
+  postType: string | null;
+  lang: string | null;
+  includeFlagged: boolean;
+}
+
+/**
+ * Handler for GET /compare and /<terms>/compare: up to 10 terms' counts per
+ * interval, one query per term. `options` reads endpoint-specific params,
+ * returning an error message when one is invalid; they are added to the cache
+ * key and the response.
+ */
+function termCompare<O extends Record<string, string | boolean>>(compare: {
+  /** Query param listing the terms, comma-separated; also the response field */
+  param: string;
+  /** Segment of the cache keys, e.g. "hashtags" */
+  cacheName: string;
+  /** Name in error logs, e.g. "Hashtag" */
+  label: string;
+  /** Normalize one term; empty when it is invalid */
+  parse: (value: string) => string;
+  /** Error when no valid term is given */
+  empty: string;
+  options: (query: express.Request["query"]) => O | string;
+  /** Query for one term's count per interval */
+  series: (
+    sql: MooseUtils["sql"],
+    term: string,
+    range: CompareRange,
+    options: O,
+  ) => ReturnType<MooseUtils["sql"]>;
+}): express.RequestHandler {
+  return async (req, res) => {
+    const { client, sql } = await getMooseUtils();
+    const termsParam = req.query[compare.param];
+    const postType = parsePostType(req.query.postType);
+    const lang = parseLang(req.query.lang);
+    const includeFlagged = req.query.includeFlagged === "true";
+
+    if (typeof termsParam !== "string" || !termsParam) {
+      return res
+        .status(400)
+        .json({ error: `${compare.param} parameter is required` });
+    }
+    if (postType === undefined) {
+      return res.status(400).json({ error: INVALID_POST_TYPE });
+    }
+    if (lang === undefined) {
+      return res.status(400).json({ error: INVALID_LANG });
+    }
+    const options = compare.options(req.query);
+    if (typeof options === "string") {
+      return res.status(400).json({ error: options });
+    }
+
+    const terms = termsParam
+      .split(",")
+      .map(compare.parse)
+      .filter((term) => term.length > 0);
+
+    if (terms.length === 0) {
+      return res.status(400).json({ error: compare.empty });
+    }
+
+    if (terms.length > 10) {
+      return res
+        .status(400)
+        .json({ error: `Maximum 10 ${compare.param} allowed` });
+    }
+
+    // Default time range: last hour
+    const now = new Date();
+    const defaultFrom = new Date(now.getTime() - 60 * 60 * 1000);
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : defaultFrom;
+    const to = req.query.to ? new Date(req.query.to as string) : now;
+
+    try {
+      // Check cache first
+      const cache = await MooseCache.get();
+      const optionsKey = Object.values(options)
+        .map((value) => `:${value}`)
+        .join("");
+      const cacheKey = `trends:${compare.cacheName}:compare:${terms.join(",")}:${from.toISOString()}:${to.toISOString()}:${postType ?? "all"}:${lang ?? "all"}:${includeFlagged}${optionsKey}`;
+      const cached = await cache.get<any>(cacheKey);
+      if (cached) {
+        return res.json({ success: true, cached: true, ...cached });
+      }
+
+      // Query each term separately for clarity
+      const results: Record<string, any[]> = {};
+      const range = { from, to, postType, lang, includeFlagged };
+
+      for (const term of terms) {
+        const result = await client.query.execute(
+          compare.series(sql, term, range, options),
+        );
+        results[term] = await result.json();
+      }
+
+      const response = {
+        [compare.param]: terms,
+        from,
+        to,
+        postType,
+        lang,
+        includeFlagged,
+        ...options,
+        data: results,
+      };
+
+      // Cache for 30 seconds
+      await cache.set(cacheKey, response, 30);
+
+      res.json({ success: true, ...response });
+    } catch (error) {
+      console.error(`[Trends API] ${compare.label} compare error:`, error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+/**
+ * Count per interval of one term of a term trends view, for termCompare
+ */
+function termSeries<T extends TermTrend, O extends TermOccurrence>(
+  trends: TermTrends<T, O>,
+) {
+  return (sql: MooseUtils["sql"], term: string, range: CompareRange) => {
+    const { from, to, postType, lang, includeFlagged } = range;
+    const columns = trends.view.targetTable.columns;
+    const rows = termRows(sql, trends, [trends.term], includeFlagged, from, to);
+    return sql`
+      SELECT
+        ${columns.interval} as interval,
+        sum(${columns.totalCount}) as count
+      FROM ${rows}
+      WHERE ${columns[trends.term]} = ${term}
+        AND ${columns.interval} >= ${formatDateForCH(from)}
+        AND ${columns.interval} <= ${formatDateForCH(to)}
+        ${postType !== null ? sql`AND ${columns.postType} = ${postType}` : sql``}
+        ${lang !== null ? sql`AND ${columns.lang} = ${lang}` : sql``}
+      GROUP BY ${columns.interval}
+      ORDER BY ${columns.interval} ASC
+    `;
+  };
+}
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -25,14 +799,76 @@ app.use((req, res, next) => {
 // CORS middleware for dashboard
 app.use((req, res, next) => {
   res.header("Access-Control-Allow-Origin", "*");
-  res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.header("Access-Control-Allow-Headers", "Content-Type");
+  res.header("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
   if (req.method === "OPTIONS") {
     return res.sendStatus(200);
   }
   next();
 });
 
+// API Key authentication for stop-word and account-flag management
+// Requests must include a valid Authorization header for TRENDS_ADMIN_API_KEY
+// When it is not set, the endpoints are unavailable rather than open
+const adminKeyAuth = createAuthMiddleware(() => {
+  return process.env.TRENDS_ADMIN_API_KEY || null;
+});
+
+const adminAuth: express.RequestHandler = (req, res, next) => {
+  if (!process.env.TRENDS_ADMIN_API_KEY) {
+    res.status(503).json({
+      error: "Admin endpoints are disabled: TRENDS_ADMIN_API_KEY is not set",
+    });
+    return;
+  }
+  adminKeyAuth(req, res, next);
+};
+
+// Term trends views served by the phrase, hashtag, mention, domain, emoji and
+// entity endpoints
+const PHRASE_TRENDS = termTrends({
+  view: PhraseTrendsMV,
+  occurrences: PhraseOccurrencePipeline.table!,
+  term: "phrase",
+  cacheName: "phrases",
+  label: "Phrase",
+});
+const HASHTAG_TRENDS = termTrends({
+  view: HashtagTrendsMV,
+  occurrences: HashtagOccurrencePipeline.table!,
+  term: "hashtag",
+  cacheName: "hashtags",
+  label: "Hashtag",
+});
+const MENTION_TRENDS = termTrends({
+  view: MentionTrendsMV,
+  occurrences: MentionOccurrencePipeline.table!,
+  term: "did",
+  cacheName: "mentions",
+  label: "Mention",
+});
+const DOMAIN_TRENDS = termTrends({
+  view: LinkDomainTrendsMV,
+  occurrences: LinkOccurrencePipeline.table!,
+  term: "domain",
+  cacheName: "domains",
+  label: "Domain",
+});
+const EMOJI_TRENDS = termTrends({
+  view: EmojiTrendsMV,
+  occurrences: EmojiOccurrencePipeline.table!,
+  term: "emoji",
+  cacheName: "emoji",
+  label: "Emoji",
+});
+const ENTITY_TRENDS = termTrends({
+  view: EntityTrendsMV,
+  occurrences: EntityOccurrencePipeline.table!,
+  term: "entity",
+  cacheName: "entities",
+  label: "Entity",
+});
+
 /**
  * GET /health - Health check
  */
@@ -50,14 +886,40 @@ app.get("/health", (_req, res) => {
  *   - word: The word to search for (required)
  *   - from: Start timestamp (optional, defaults to 1 hour ago)
  *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - groupBy: "stem" to count every form sharing the word's stem, with a
+ *     breakdown of the forms in `variants` (optional, defaults to "word")
+ *   - countBy: What `count` is per interval: "occurrences" (default),
+ *     "authors" or "blended", as for rankBy in /top; the latter two also
+ *     return `occurrences` and `authors`
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
  */
 app.get("/search", async (req, res) => {
   const { client, sql } = await getMooseUtils();
   const word = (req.query.word as string)?.toLowerCase();
+  const postType = parsePostType(req.query.postType);
+  const lang = parseLang(req.query.lang);
+  const groupBy = parseGroupBy(req.query.groupBy);
+  const countBy = parseCountBy(req.query.countBy);
+  const includeFlagged = req.query.includeFlagged === "true";
 
   if (!word) {
     return res.status(400).json({ error: "word parameter is required" });
   }
+  if (postType === undefined) {
+    return res.status(400).json({ error: INVALID_POST_TYPE });
+  }
+  if (lang === undefined) {
+    return res.status(400).json({ error: INVALID_LANG });
+  }
+  if (groupBy === undefined) {
+    return res.status(400).json({ error: INVALID_GROUP_BY });
+  }
+  if (countBy === undefined) {
+    return res.status(400).json({ error: INVALID_COUNT_BY });
+  }
 
   // Default time range: last hour
   const now = new Date();
@@ -70,31 +932,100 @@ app.get("/search", async (req, res) => {
   try {
     // Check cache first
     const cache = await MooseCache.get();
-    const cacheKey = `trends:search:${word}:${from.toISOString()}:${to.toISOString()}`;
-    const cached = await cache.get<any[]>(cacheKey);
+    const cacheKey = `trends:search:${word}:${from.toISOString()}:${to.toISOString()}:${postType ?? "all"}:${lang ?? "all"}:${groupBy}:${countBy}:${includeFlagged}`;
+    const cached = await cache.get<any>(cacheKey);
     if (cached) {
-      return res.json({ success: true, cached: true, data: cached });
+      return res.json({ success: true, cached: true, ...cached });
     }
 
-    const query = sql`
+    const trends = WordTrendsMV.targetTable.columns;
+    // Grouped by stem, every form sharing a stem with the word matches
+    const matchWord =
+      groupBy === "stem"
+        ? sql`${trends.stem} IN (
+            SELECT DISTINCT ${trends.stem} FROM ${WordTrendsMV.targetTable}
+            WHERE ${trends.word} = ${word}
+          )`
+        : sql`${trends.word} = ${word}`;
+    const filters = sql`
+        AND ${trends.interval} >= ${formatDateForCH(from)}
+        AND ${trends.interval} <= ${formatDateForCH(to)}
+        ${postType !== null ? sql`AND ${trends.postType} = ${postType}` : sql``}
+        ${lang !== null ? sql`AND ${trends.lang} = ${lang}` : sql``}
+    `;
+
+    const withoutFlagged = wordsWithoutFlagged(sql, from, to);
+
+    // WordAuthorTrends has the same dimensions, so the filters apply to it
+    const authorTrends = WordAuthorTrendsMV.targetTable.columns;
+    const query =
+      countBy === "occurrences"
+        ? sql`
       SELECT
-        ${WordTrendsMV.targetTable.columns.interval} as interval,
-        sum(${WordTrendsMV.targetTable.columns.totalCount}) as count
-      FROM ${WordTrendsMV.targetTable}
-      WHERE ${WordTrendsMV.targetTable.columns.word} = ${word}
-        AND ${WordTrendsMV.targetTable.columns.interval} >= ${formatDateForCH(from)}
-        AND ${WordTrendsMV.targetTable.columns.interval} <= ${formatDateForCH(to)}
-      GROUP BY ${WordTrendsMV.targetTable.columns.interval}
-      ORDER BY ${WordTrendsMV.targetTable.columns.interval} ASC
+        ${trends.interval} as interval,
+        sum(${trends.totalCount}) as count,
+        ${averageSentiment(sql)} as sentiment
+      FROM ${includeFlagged ? WordTrendsMV.targetTable : withoutFlagged}
+      WHERE ${matchWord}
+        ${filters}
+      GROUP BY ${trends.interval}
+      ORDER BY ${trends.interval} ASC
+    `
+        : sql`
+      SELECT
+        ${authorTrends.interval} as interval,
+        ${authorCount(sql, includeFlagged)} as authorCount,
+        sum(${authorTrends.totalCount}) as occurrences,
+        ${countBy === "authors" ? sql`authorCount` : blendedScore(sql)} as count,
+        ${averageSentiment(sql, authorTrends)} as sentiment
+      FROM ${includeFlagged ? WordAuthorTrendsMV.targetTable : withoutFlagged}
+      WHERE ${matchWord}
+        ${filters}
+      GROUP BY ${authorTrends.interval}
+      ORDER BY ${authorTrends.interval} ASC
     `;
 
     const result = await client.query.execute(query);
-    const data = await result.json();
+    const rows: any[] = await result.json();
+    const data = rows.map(({ authorCount, ...row }) => ({
+      ...row,
+      ...(authorCount !== undefined && { authors: authorCount }),
+    }));
+
+    // How much each form contributed to the stem's count
+    let variants: any[] | undefined;
+    if (groupBy === "stem") {
+      const variantsResult = await client.query.execute(sql`
+        SELECT
+          ${trends.word} as word,
+          sum(${trends.totalCount}) as count,
+          ${averageSentiment(sql)} as sentiment
+        FROM ${includeFlagged ? WordTrendsMV.targetTable : withoutFlagged}
+        WHERE ${matchWord}
+          ${filters}
+        GROUP BY ${trends.word}
+        ORDER BY count DESC
+      `);
+      variants = await variantsResult.json();
+    }
+
+    const response = {
+      word,
+      from,
+      to,
+      postType,
+      lang,
+      groupBy,
+      countBy,
+      includeFlagged,
+      variants,
+      data,
+    };
 
     // Cache for 30 seconds
-    await cache.set(cacheKey, data, 30);
+    await cache.set(cacheKey, response, 30);
 
-    res.json({ success: true, word, from, to, data });
+    res.json({ success: true, ...response });
   } catch (error) {
     console.error("[Trends API] Search error:", error);
     res.status(500).json({
@@ -110,6 +1041,18 @@ app.get("/search", async (req, res) => {
  *   - minutes: Time window in minutes (optional, defaults to 5)
  *   - limit: Number of words to return (optional, defaults to 20)
  *   - minLength: Minimum word length (optional)
+ *   - rankBy: "occurrences" (default); "engagement", which weights each
+ *     occurrence by 1 + likes + 2 * reposts of the post it appeared in;
+ *     "authors", the number of distinct authors using the word; or "blended",
+ *     authors * (1 + ln(occurrences / authors))
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - excludeStopWords: "true" to also drop the current stop words, including
+ *     ones added after the words were counted (optional)
+ *   - groupBy: "stem" to rank stems, each with its most frequent forms in
+ *     `variants` (optional, defaults to "word")
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
  */
 app.get("/top", async (req, res) => {
   const { client, sql } = await getMooseUtils();
@@ -118,11 +1061,30 @@ app.get("/top", async (req, res) => {
   const minLength = req.query.minLength
     ? parseInt(req.query.minLength as string)
     : null;
+  const rankBy = parseRankBy(req.query.rankBy);
+  const postType = parsePostType(req.query.postType);
+  const lang = parseLang(req.query.lang);
+  const excludeStopWords = req.query.excludeStopWords === "true";
+  const groupBy = parseGroupBy(req.query.groupBy);
+  const includeFlagged = req.query.includeFlagged === "true";
+
+  if (rankBy === undefined) {
+    return res.status(400).json({ error: INVALID_RANK_BY });
+  }
+  if (postType === undefined) {
+    return res.status(400).json({ error: INVALID_POST_TYPE });
+  }
+  if (lang === undefined) {
+    return res.status(400).json({ error: INVALID_LANG });
+  }
+  if (groupBy === undefined) {
+    return res.status(400).json({ error: INVALID_GROUP_BY });
+  }
 
   try {
     // Check cache first
     const cache = await MooseCache.get();
-    const cacheKey = `trends:top:${minutes}:${limit}:${minLength ?? "none"}`;
+    const cacheKey = `trends:top:${minutes}:${limit}:${minLength ?? "none"}:${rankBy}:${postType ?? "all"}:${lang ?? "all"}:${excludeStopWords}:${groupBy}:${includeFlagged}`;
     const cached = await cache.get<any[]>(cacheKey);
     if (cached) {
       return res.json({ success: true, cached: true, data: cached });
@@ -130,25 +1092,153 @@ app.get("/top", async (req, res) => {
 
     const cutoff = new Date(Date.now() - minutes * 60 * 1000);
 
-    const query = sql`
+    const wordTable = WordOccurrencePipeline.table!;
+    const engagementTable = PostEngagementMV.targetTable;
+    const stopWords = StopWordTable.columns;
+
+    // Stop words of each row's language, plus those of every language
+    const stopWordFilter = (
+      langColumn: typeof wordTable.columns.lang,
+      wordColumn: typeof wordTable.columns.word,
+    ) =>
+      excludeStopWords
+        ? sql`
+        AND (${langColumn}, ${wordColumn}) NOT IN (
+          SELECT ${stopWords.lang}, ${stopWords.word} FROM ${StopWordTable} FINAL
+        )
+        AND ${wordColumn} NOT IN (
+          SELECT ${stopWords.word} FROM ${StopWordTable} FINAL
+          WHERE ${stopWords.lang} = ${ALL_LANGUAGES}
+        )`
+        : sql``;
+
+    const wordLimit = groupBy === "word" ? sql`LIMIT ${limit}` : sql``;
+    const withoutFlagged = wordsWithoutFlagged(sql, cutoff);
+
+    // Engagement-weighted volume joins per-post occurrences with the
+    // engagement each post has received since the cutoff
+    const authorTrends = WordAuthorTrendsMV.targetTable.columns;
+    const query =
+      rankBy === "authors" || rankBy === "blended"
+        ? sql`
+      SELECT
+        ${authorTrends.word} as word,
+        any(${authorTrends.stem}) as wordStem,
+        ${authorCount(sql, includeFlagged)} as authorCount,
+        sum(${authorTrends.totalCount}) as occurrences,
+        ${rankBy === "authors" ? sql`authorCount` : blendedScore(sql)} as total,
+        sum(${authorTrends.sentimentCount}) as scored,
+        ${averageSentiment(sql, authorTrends)} as wordSentiment
+      FROM ${includeFlagged ? WordAuthorTrendsMV.targetTable : withoutFlagged}
+      WHERE ${authorTrends.interval} >= ${formatDateForCH(cutoff)}
+        ${minLength !== null ? sql`AND length(${authorTrends.word}) >= ${minLength}` : sql``}
+        ${postType !== null ? sql`AND ${authorTrends.postType} = ${postType}` : sql``}
+        ${lang !== null ? sql`AND ${authorTrends.lang} = ${lang}` : sql``}
+        ${stopWordFilter(authorTrends.lang, authorTrends.word)}
+      GROUP BY ${authorTrends.word}
+      ORDER BY total DESC
+      ${wordLimit}
+    `
+        : rankBy === "engagement"
+        ? sql`
+      SELECT
+        ${wordTable.columns.word} as word,
+        any(${wordTable.columns.stem}) as wordStem,
+        sum(${wordTable.columns.count} * (1 + e.likes + ${REPOST_WEIGHT} * e.reposts)) as total,
+        sum(${wordTable.columns.count}) as occurrences,
+        sumIf(${wordTable.columns.count}, isNotNull(${wordTable.columns.sentiment})) as scored,
+        if(scored = 0, NULL, round(sum(ifNull(${wordTable.columns.sentiment}, 0) * ${wordTable.columns.count}) / scored, 3)) as wordSentiment
+      FROM ${wordTable}
+      LEFT JOIN (
+        SELECT
+          ${engagementTable.columns.postUri} as postUri,
+          sum(${engagementTable.columns.likes}) as likes,
+          sum(${engagementTable.columns.reposts}) as reposts
+        FROM ${engagementTable}
+        WHERE ${engagementTable.columns.interval} >= ${formatDateForCH(cutoff)}
+        GROUP BY ${engagementTable.columns.postUri}
+      ) AS e ON ${wordTable.columns.postId} = e.postUri
+      WHERE ${wordTable.columns.intervalTimestamp} >= ${formatDateForCH(cutoff)}
+        ${minLength !== null ? sql`AND length(${wordTable.columns.word}) >= ${minLength}` : sql``}
+        ${postType !== null ? sql`AND ${wordTable.columns.postType} = ${postType}` : sql``}
+        ${lang !== null ? sql`AND ${wordTable.columns.lang} = ${lang}` : sql``}
+        ${stopWordFilter(wordTable.columns.lang, wordTable.columns.word)}
+        ${includeFlagged ? sql`` : notFlagged(sql, wordTable.columns.authorDid)}
+      GROUP BY ${wordTable.columns.word}
+      ORDER BY total DESC
+      ${wordLimit}
+    `
+        : sql`
       SELECT
         ${WordTrendsMV.targetTable.columns.word} as word,
-        sum(${WordTrendsMV.targetTable.columns.totalCount}) as total
-      FROM ${WordTrendsMV.targetTable}
+        any(${WordTrendsMV.targetTable.columns.stem}) as wordStem,
+        sum(${WordTrendsMV.targetTable.columns.totalCount}) as total,
+        total as occurrences,
+        sum(${WordTrendsMV.targetTable.columns.sentimentCount}) as scored,
+        ${averageSentiment(sql)} as wordSentiment
+      FROM ${includeFlagged ? WordTrendsMV.targetTable : withoutFlagged}
       WHERE ${WordTrendsMV.targetTable.columns.interval} >= ${formatDateForCH(cutoff)}
         ${minLength !== null ? sql`AND length(${WordTrendsMV.targetTable.columns.word}) >= ${minLength}` : sql``}
+        ${postType !== null ? sql`AND ${WordTrendsMV.targetTable.columns.postType} = ${postType}` : sql``}
+        ${lang !== null ? sql`AND ${WordTrendsMV.targetTable.columns.lang} = ${lang}` : sql``}
+        ${stopWordFilter(WordTrendsMV.targetTable.columns.lang, WordTrendsMV.targetTable.columns.word)}
       GROUP BY ${WordTrendsMV.targetTable.columns.word}
       ORDER BY total DESC
+      ${wordLimit}
+    `;
+
+    // Stems add up the totals of their forms, so the limit applies after
+    // grouping; variants are the stem's most frequent forms
+    const stemQuery = sql`
+      SELECT
+        wordStem as stem,
+        sum(total) as stemTotal,
+        if(sum(scored) = 0, NULL, round(sum(wordSentiment * scored) / sum(scored), 3)) as stemSentiment,
+        arraySlice(arraySort(v -> -v.2, groupArray((word, total))), 1, ${MAX_STEM_VARIANTS}) as variants
+      FROM (${query})
+      GROUP BY wordStem
+      ORDER BY stemTotal DESC
       LIMIT ${limit}
     `;
 
-    const result = await client.query.execute(query);
-    const data = await result.json();
+    const result = await client.query.execute(
+      groupBy === "stem" ? stemQuery : query,
+    );
+    const rows: any[] = await result.json();
+    const data =
+      groupBy === "stem"
+        ? rows.map((row) => ({
+            stem: row.stem,
+            total: row.stemTotal,
+            sentiment: row.stemSentiment,
+            variants: row.variants.map(([word, count]: [string, number]) => ({
+              word,
+              count,
+            })),
+          }))
+        : rows.map(({ word, total, wordSentiment, authorCount }) => ({
+            word,
+            total,
+            sentiment: wordSentiment,
+            ...(authorCount !== undefined && { authors: authorCount }),
+          }));
 
     // Cache for 15 seconds for top trending
     await cache.set(cacheKey, data, 15);
 
-    res.json({ success: true, minutes, limit, minLength, data });
+    res.json({
+      success: true,
+      minutes,
+      limit,
+      minLength,
+      rankBy,
+      postType,
+      lang,
+      excludeStopWords,
+      groupBy,
+      includeFlagged,
+      data,
+    });
   } catch (error) {
     console.error("[Trends API] Top error:", error);
     res.status(500).json({
@@ -164,73 +1254,378 @@ app.get("/top", async (req, res) => {
  *   - words: Comma-separated list of words (required)
  *   - from: Start timestamp (optional, defaults to 1 hour ago)
  *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - groupBy: "stem" to count every form sharing each word's stem
+ *     (optional, defaults to "word")
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
  */
-app.get("/compare", async (req, res) => {
-  const { client, sql } = await getMooseUtils();
-  const wordsParam = req.query.words as string;
+app.get(
+  "/compare",
+  termCompare({
+    param: "words",
+    cacheName: "words",
+    label: "Word",
+    parse: (value) => value.trim().toLowerCase(),
+    empty: "At least one word is required",
+    options: (query) => {
+      const groupBy = parseGroupBy(query.groupBy);
+      if (groupBy === undefined) return INVALID_GROUP_BY;
+      return { groupBy };
+    },
+    series: (sql, word, { from, to, postType, lang, includeFlagged }, options) => {
+      const trends = WordTrendsMV.targetTable.columns;
+      // Grouped by stem, every form sharing a stem with the word matches
+      const matchWord =
+        options.groupBy === "stem"
+          ? sql`${trends.stem} IN (
+              SELECT DISTINCT ${trends.stem} FROM ${WordTrendsMV.targetTable}
+              WHERE ${trends.word} = ${word}
+            )`
+          : sql`${trends.word} = ${word}`;
 
-  if (!wordsParam) {
-    return res.status(400).json({ error: "words parameter is required" });
-  }
+      return sql`
+        SELECT
+          ${trends.interval} as interval,
+          sum(${trends.totalCount}) as count,
+          ${averageSentiment(sql)} as sentiment
+        FROM ${includeFlagged ? WordTrendsMV.targetTable : wordsWithoutFlagged(sql, from, to)}
+        WHERE ${matchWord}
+          AND ${trends.interval} >= ${formatDateForCH(from)}
+          AND ${trends.interval} <= ${formatDateForCH(to)}
+          ${postType !== null ? sql`AND ${trends.postType} = ${postType}` : sql``}
+          ${lang !== null ? sql`AND ${trends.lang} = ${lang}` : sql``}
+        GROUP BY ${trends.interval}
+        ORDER BY ${trends.interval} ASC
+      `;
+    },
+  }),
+);
 
-  const words = wordsParam
-    .split(",")
-    .map((w) => w.trim().toLowerCase())
-    .filter((w) => w.length > 0);
+/**
+ * GET /phrases/search - Search for phrase trends over time
+ * Query params:
+ *   - phrase: The phrase to search for, e.g. "supreme court" (required)
+ *   - from: Start timestamp (optional, defaults to 1 hour ago)
+ *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/phrases/search",
+  termSearch({
+    ...PHRASE_TRENDS,
+    parse: parsePhrase,
+    required: "phrase parameter of at least two words is required",
+  }),
+);
 
-  if (words.length === 0) {
-    return res.status(400).json({ error: "At least one word is required" });
-  }
+/**
+ * GET /phrases/top - Get top trending phrases
+ * Query params:
+ *   - minutes: Time window in minutes (optional, defaults to 5)
+ *   - limit: Number of results (optional, defaults to 20)
+ *   - size: Only phrases of 2 or 3 words (optional)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/phrases/top",
+  termTop({
+    ...PHRASE_TRENDS,
+    filters: [
+      { column: "size", parse: parsePhraseSize, invalid: "size must be 2 or 3" },
+    ],
+  }),
+);
 
-  if (words.length > 10) {
-    return res.status(400).json({ error: "Maximum 10 words allowed" });
-  }
+/**
+ * GET /phrases/compare - Compare multiple phrases over time
+ * Query params:
+ *   - phrases: Comma-separated list of phrases (required)
+ *   - from: Start timestamp (optional, defaults to 1 hour ago)
+ *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/phrases/compare",
+  termCompare({
+    param: "phrases",
+    ...PHRASE_TRENDS,
+    parse: parsePhrase,
+    empty: "At least one phrase of two or more words is required",
+    options: () => ({}),
+    series: termSeries(PHRASE_TRENDS),
+  }),
+);
 
-  // Default time range: last hour
-  const now = new Date();
-  const defaultFrom = new Date(now.getTime() - 60 * 60 * 1000);
-  const from = req.query.from
-    ? new Date(req.query.from as string)
-    : defaultFrom;
-  const to = req.query.to ? new Date(req.query.to as string) : now;
+/**
+ * GET /hashtags/search - Search for hashtag trends over time
+ * Query params:
+ *   - hashtag: The hashtag to search for, with or without "#" (required)
+ *   - from: Start timestamp (optional, defaults to 1 hour ago)
+ *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/hashtags/search",
+  termSearch({
+    ...HASHTAG_TRENDS,
+    parse: normalizeHashtag,
+    required: "hashtag parameter is required",
+  }),
+);
+
+/**
+ * GET /hashtags/top - Get top trending hashtags
+ * Query params:
+ *   - minutes: Time window in minutes (optional, defaults to 5)
+ *   - limit: Number of results (optional, defaults to 20)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/hashtags/top",
+  termTop({
+    ...HASHTAG_TRENDS,
+  }),
+);
+
+/**
+ * GET /hashtags/compare - Compare multiple hashtags over time
+ * Query params:
+ *   - hashtags: Comma-separated list of hashtags (required)
+ *   - from: Start timestamp (optional, defaults to 1 hour ago)
+ *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/hashtags/compare",
+  termCompare({
+    param: "hashtags",
+    ...HASHTAG_TRENDS,
+    parse: normalizeHashtag,
+    empty: "At least one hashtag is required",
+    options: () => ({}),
+    series: termSeries(HASHTAG_TRENDS),
+  }),
+);
+
+/**
+ * GET /mentions/search - Search for mention trends over time
+ * Query params:
+ *   - did: DID of the mentioned account, e.g. "did:plc:..." (required)
+ *   - from: Start timestamp (optional, defaults to 1 hour ago)
+ *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/mentions/search",
+  termSearch({
+    ...MENTION_TRENDS,
+    parse: normalizeDid,
+    required: "did parameter must be a DID such as did:plc:...",
+  }),
+);
+
+/**
+ * GET /mentions/top - Get top trending mentioned accounts
+ * Query params:
+ *   - minutes: Time window in minutes (optional, defaults to 5)
+ *   - limit: Number of results (optional, defaults to 20)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/mentions/top",
+  termTop({
+    ...MENTION_TRENDS,
+  }),
+);
+
+/**
+ * GET /domains/search - Search for link domain trends over time
+ * Query params:
+ *   - domain: The domain to search for, e.g. "nytimes.com" (required)
+ *   - from: Start timestamp (optional, defaults to 1 hour ago)
+ *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/domains/search",
+  termSearch({
+    ...DOMAIN_TRENDS,
+    parse: normalizeDomain,
+    required: "domain parameter is required",
+  }),
+);
+
+/**
+ * GET /domains/top - Get top trending linked domains
+ * Query params:
+ *   - minutes: Time window in minutes (optional, defaults to 5)
+ *   - limit: Number of results (optional, defaults to 20)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/domains/top",
+  termTop({
+    ...DOMAIN_TRENDS,
+  }),
+);
+
+/**
+ * GET /emoji/search - Search for emoji trends over time
+ * Query params:
+ *   - emoji: The emoji to search for, e.g. "😂" (required)
+ *   - from: Start timestamp (optional, defaults to 1 hour ago)
+ *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/emoji/search",
+  termSearch({
+    ...EMOJI_TRENDS,
+    parse: (value) => (typeof value === "string" ? value.trim() : ""),
+    required: "emoji parameter is required",
+  }),
+);
+
+/**
+ * GET /emoji/top - Get top trending emoji
+ * Query params:
+ *   - minutes: Time window in minutes (optional, defaults to 5)
+ *   - limit: Number of results (optional, defaults to 20)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/emoji/top",
+  termTop({
+    ...EMOJI_TRENDS,
+  }),
+);
+
+/**
+ * GET /entities/search - Search for entity trends over time
+ * Query params:
+ *   - entity: The name to search for, case-sensitive, e.g. "Apple" (required)
+ *   - from: Start timestamp (optional, defaults to 1 hour ago)
+ *   - to: End timestamp (optional, defaults to now)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/entities/search",
+  termSearch({
+    ...ENTITY_TRENDS,
+    parse: normalizeEntity,
+    required: "entity parameter is required",
+  }),
+);
+
+/**
+ * GET /entities/top - Get top trending entities
+ * Query params:
+ *   - minutes: Time window in minutes (optional, defaults to 5)
+ *   - limit: Number of results (optional, defaults to 20)
+ *   - type: Only include person, organization, place or candidate entities
+ *     (optional)
+ *   - postType: Only count original posts, replies or quotes (optional)
+ *   - lang: Only count posts in this language, e.g. "ja" (optional)
+ *   - includeFlagged: "true" to also count accounts flagged as bots or spam
+ *     (optional, see /flags)
+ */
+app.get(
+  "/entities/top",
+  termTop({
+    ...ENTITY_TRENDS,
+    filters: [
+      { column: "type", parse: parseEntityType, invalid: INVALID_ENTITY_TYPE },
+    ],
+    details: ["type"],
+  }),
+);
+
+/**
+ * GET /threads - Get threads with the most replies
+ * Query params:
+ *   - minutes: Time window in minutes (optional, defaults to 60)
+ *   - limit: Number of threads to return (optional, defaults to 20)
+ */
+app.get("/threads", async (req, res) => {
+  const { client, sql } = await getMooseUtils();
+  const minutes = parseInt(req.query.minutes as string) || 60;
+  const limit = parseInt(req.query.limit as string) || 20;
 
   try {
-    // Check cache first
     const cache = await MooseCache.get();
-    const cacheKey = `trends:compare:${words.join(",")}:${from.toISOString()}:${to.toISOString()}`;
-    const cached = await cache.get<any>(cacheKey);
+    const cacheKey = `trends:threads:${minutes}:${limit}`;
+    const cached = await cache.get<any[]>(cacheKey);
     if (cached) {
-      return res.json({ success: true, cached: true, ...cached });
+      return res.json({ success: true, cached: true, data: cached });
     }
 
-    // Query each word separately for clarity
-    const results: Record<string, any[]> = {};
-
-    for (const word of words) {
-      const query = sql`
-        SELECT
-          ${WordTrendsMV.targetTable.columns.interval} as interval,
-          sum(${WordTrendsMV.targetTable.columns.totalCount}) as count
-        FROM ${WordTrendsMV.targetTable}
-        WHERE ${WordTrendsMV.targetTable.columns.word} = ${word}
-          AND ${WordTrendsMV.targetTable.columns.interval} >= ${formatDateForCH(from)}
-          AND ${WordTrendsMV.targetTable.columns.interval} <= ${formatDateForCH(to)}
-        GROUP BY ${WordTrendsMV.targetTable.columns.interval}
-        ORDER BY ${WordTrendsMV.targetTable.columns.interval} ASC
-      `;
+    const cutoff = new Date(Date.now() - minutes * 60 * 1000);
+    const postTable = BlueskyPostPipeline.table!;
 
-      const result = await client.query.execute(query);
-      results[word] = await result.json();
-    }
+    const query = sql`
+      SELECT
+        ${postTable.columns.replyRootUri} as rootUri,
+        count() as replies,
+        uniqExact(${postTable.columns.authorDid}) as participants,
+        max(${postTable.columns.createdAt}) as lastReplyAt
+      FROM ${postTable} FINAL
+      WHERE ${postTable.columns.createdAt} >= ${formatDateForCH(cutoff)}
+        AND ${postTable.columns.replyRootUri} IS NOT NULL
+      GROUP BY ${postTable.columns.replyRootUri}
+      ORDER BY replies DESC
+      LIMIT ${limit}
+    `;
 
-    const response = { words, from, to, data: results };
+    const result = await client.query.execute(query);
+    const data = await result.json();
 
     // Cache for 30 seconds
-    await cache.set(cacheKey, response, 30);
+    await cache.set(cacheKey, data, 30);
 
-    res.json({ success: true, ...response });
+    res.json({ success: true, minutes, limit, data });
   } catch (error) {
-    console.error("[Trends API] Compare error:", error);
+    console.error("[Trends API] Threads error:", error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : String(error),
@@ -240,6 +1635,8 @@ app.get("/compare", async (req, res) => {
 
 /**
  * GET /stats - Get overall statistics
+ * Counts every account, flagged or not: the totals describe what has been
+ * ingested, not what the trends show.
  */
 app.get("/stats", async (req, res) => {
   const { client, sql } = await getMooseUtils();
@@ -278,6 +1675,138 @@ app.get("/stats", async (req, res) => {
   }
 });
 
+/**
+ * GET /stopwords - List stop words (requires the admin API key)
+ * Query params:
+ *   - lang: Only list this language's stop words, or "all" for the ones that
+ *     apply to every language (optional)
+ */
+app.get("/stopwords", adminAuth, async (req, res) => {
+  const lang =
+    req.query.lang === ALL_LANGUAGES ? ALL_LANGUAGES : parseLang(req.query.lang);
+  if (lang === undefined) {
+    return res.status(400).json({ error: INVALID_LANG });
+  }
+
+  try {
+    const lists = await loadStopWords();
+    const data: Record<string, string[]> = {};
+    lists.forEach((words, listLang) => {
+      if (lang === null || listLang === lang) {
+        data[listLang] = Array.from(words).sort();
+      }
+    });
+    res.json({ success: true, lang, data });
+  } catch (error) {
+    console.error("[Trends API] Stop words error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /stopwords - Add stop words (requires the admin API key)
+ * Body: { "lang": "en", "words": ["lol"] }
+ * Word extraction picks up changes within 30 seconds.
+ */
+app.post("/stopwords", adminAuth, async (req, res) => {
+  const change = parseStopWordChange(req.body);
+  if (typeof change === "string") {
+    return res.status(400).json({ error: change });
+  }
+
+  try {
+    await addStopWords(change.lang, change.words);
+    res.json({ success: true, lang: change.lang, added: change.words });
+  } catch (error) {
+    console.error("[Trends API] Add stop words error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * DELETE /stopwords - Remove stop words (requires the admin API key)
+ * Body: { "lang": "en", "words": ["new"] }
+ */
+app.delete("/stopwords", adminAuth, async (req, res) => {
+  const change = parseStopWordChange(req.body);
+  if (typeof change === "string") {
+    return res.status(400).json({ error: change });
+  }
+
+  try {
+    await removeStopWords(change.lang, change.words);
+    res.json({ success: true, lang: change.lang, removed: change.words });
+  } catch (error) {
+    console.error("[Trends API] Remove stop words error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /flags - List accounts flagged as bots or spam (requires the admin API
+ * key)
+ * Query params:
+ *   - excludedOnly: "true" to list only accounts left out of trends (optional)
+ *   - limit: Max results (optional, defaults to 100)
+ */
+app.get("/flags", adminAuth, async (req, res) => {
+  const excludedOnly = req.query.excludedOnly === "true";
+  const limit = parseInt(req.query.limit as string) || 100;
+
+  try {
+    const data = await loadAccountFlags({ excludedOnly, limit });
+    res.json({ success: true, excludedOnly, limit, data });
+  } catch (error) {
+    console.error("[Trends API] Flags error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /flags - Override an account's flag (requires the admin API key)
+ * Body: { "authorDid": "did:plc:abc123", "override": "clear" }
+ * "flag" always excludes the account, "clear" never does and "none" goes back
+ * to the heuristics. Trends pick up changes when their cache expires.
+ */
+app.post("/flags", adminAuth, async (req, res) => {
+  const authorDid = normalizeDid(req.body?.authorDid);
+  const override = req.body?.override as FlagOverride;
+
+  if (!authorDid) {
+    return res
+      .status(400)
+      .json({ error: 'authorDid must be a DID such as "did:plc:abc123"' });
+  }
+  if (!FLAG_OVERRIDES.includes(override)) {
+    return res.status(400).json({
+      error: `override must be one of: ${FLAG_OVERRIDES.join(", ")}`,
+    });
+  }
+
+  try {
+    const data = await overrideAccountFlag(authorDid, override);
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error("[Trends API] Override flag error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 // Error handling middleware
 app.use((err: any, req: any, res: any, next: any) => {
   console.error("[Trends API] Error:", err);
@@ -3,17 +3,54 @@
 // Data models and pipelines
 export * from "./ingest/models";
 
-// Word extraction transform
+// Word, phrase, hashtag, mention, link and emoji extraction transforms
 export * from "./ingest/bluesky-transforms";
 
+// Like and repost deduplication
+export * from "./ingest/engagement-transforms";
+
 // Materialized view for trends
 export * from "./views/wordTrends";
 
+// Materialized view counting distinct authors per word
+export * from "./views/wordAuthorTrends";
+
+// Materialized view for phrase trends
+export * from "./views/phraseTrends";
+
+// Materialized view for hashtag trends
+export * from "./views/hashtagTrends";
+
+// Materialized views for mention and link domain trends
+export * from "./views/mentionTrends";
+export * from "./views/linkDomainTrends";
+
+// Materialized view for emoji trends
+export * from "./views/emojiTrends";
+
+// Materialized view for named-entity trends
+export * from "./views/entityTrends";
+
+// Tombstones masking deleted posts
+export * from "./views/postTombstones";
+
+// Engagement per post
+export * from "./views/postEngagement";
+
 // REST API for trends
 export * from "./apis/trends";
 
+// Firehose status API
+export * from "./apis/firehose";
+
 // Firehose ingestion workflow
 export * from "./workflows/firehose";
 
+// Historical backfill workflow
+export * from "./workflows/backfill";
+
+// Scheduled bot and spam flag refresh
+export * from "./workflows/flags";
+
 // MCP server for AI tools
 export * from "./apis/mcp";
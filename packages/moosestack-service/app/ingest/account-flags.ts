@@ -0,0 +1,205 @@
+import { getMooseUtils } from "@514labs/moose-lib";
+import {
+  AccountFlag,
+  AccountFlagTable,
+  BlueskyPostPipeline,
+} from "./models";
+import { AccountActivity, FLAG_THRESHOLD, scoreActivity } from "./account-scoring";
+
+/**
+ * Bot and spam heuristics for accounts
+ *
+ * Accounts are scored from their recent posts on three signals: how fast they
+ * post, how often they repeat the same text, and how many posts are nothing
+ * but a link. Flagged accounts are left out of trends unless a query
+ * asks for them. Admins can override a flag either way; overrides survive
+ * later refreshes.
+ */
+
+/** Manual override of an account's flag */
+export type FlagOverride = "none" | "flag" | "clear";
+
+export const FLAG_OVERRIDES: FlagOverride[] = ["none", "flag", "clear"];
+
+// Posts are scored over this much recent history
+const SCORING_WINDOW_MINUTES = 60;
+
+// Accounts with fewer posts in the window are not scored
+const MIN_POSTS = 10;
+
+// Links, with or without a scheme, as clients often shorten them in text
+const LINK_PATTERN = "(https?://)?[[:alnum:]._-]+\\.[[:alpha:]]{2,}(/[^[:space:]]*)?";
+
+/**
+ * Whether an account's posts are left out of trends
+ */
+function isExcluded(flagged: boolean, override: FlagOverride): 0 | 1 {
+  if (override === "flag") return 1;
+  if (override === "clear") return 0;
+  return flagged ? 1 : 0;
+}
+
+/**
+ * Posting behaviour of every account with enough posts in the window
+ */
+async function loadActivity(): Promise<AccountActivity[]> {
+  const { client, sql } = await getMooseUtils();
+  const postTable = BlueskyPostPipeline.table!;
+  const posts = postTable.columns;
+
+  const result = await client.query.execute(sql`
+    SELECT
+      authorDid,
+      sum(minutePosts) as posts,
+      max(minutePosts) as peakPostsPerMinute,
+      1 - uniqExactMerge(texts) / posts as duplicateShare,
+      sum(minuteLinkOnly) / posts as linkOnlyShare
+    FROM (
+      SELECT
+        ${posts.authorDid} as authorDid,
+        toStartOfMinute(${posts.createdAt}) as minute,
+        count() as minutePosts,
+        uniqExactState(${posts.text}) as texts,
+        countIf(trimBoth(replaceRegexpAll(${posts.text}, ${LINK_PATTERN}, '')) = '') as minuteLinkOnly
+      FROM ${postTable} FINAL
+      WHERE ${posts.createdAt} >= now() - INTERVAL ${SCORING_WINDOW_MINUTES} MINUTE
+        AND ${posts.deleted} = 0
+      GROUP BY authorDid, minute
+    )
+    GROUP BY authorDid
+    HAVING posts >= ${MIN_POSTS}
+  `);
+  const rows = (await result.json()) as Array<Record<string, string | number>>;
+  return rows.map((row) => ({
+    authorDid: String(row.authorDid),
+    posts: Number(row.posts),
+    peakPostsPerMinute: Number(row.peakPostsPerMinute),
+    duplicateShare: Number(row.duplicateShare),
+    linkOnlyShare: Number(row.linkOnlyShare),
+  }));
+}
+
+/**
+ * Current flags, highest score first
+ */
+export async function loadAccountFlags(options: {
+  authorDid?: string;
+  excludedOnly?: boolean;
+  limit?: number;
+} = {}): Promise<AccountFlag[]> {
+  const { client, sql } = await getMooseUtils();
+  const flags = AccountFlagTable.columns;
+  const result = await client.query.execute(sql`
+    SELECT *
+    FROM ${AccountFlagTable} FINAL
+    WHERE 1 = 1
+      ${options.authorDid ? sql`AND ${flags.authorDid} = ${options.authorDid}` : sql``}
+      ${options.excludedOnly ? sql`AND ${flags.excluded} = 1` : sql``}
+    ORDER BY ${flags.score} DESC
+    ${options.limit !== undefined ? sql`LIMIT ${options.limit}` : sql``}
+  `);
+  return (await result.json()) as AccountFlag[];
+}
+
+/**
+ * Rescore recent accounts and write their flags
+ * Rows are written for accounts that are flagged now and for accounts that
+ * already have one, so flags clear when the behaviour stops and overrides are
+ * carried over.
+ */
+export async function refreshAccountFlags(): Promise<{
+  scored: number;
+  flagged: number;
+}> {
+  const activity = await loadActivity();
+
+  // Read existing rows last, to carry over overrides made during scoring
+  const existing = new Map(
+    (await loadAccountFlags()).map((flag) => [flag.authorDid, flag]),
+  );
+
+  const scoredAt = new Date();
+  const version = scoredAt.getTime();
+  const rows: AccountFlag[] = [];
+  const active = new Set<string>();
+
+  for (const account of activity) {
+    active.add(account.authorDid);
+    const { score, reasons } = scoreActivity(account);
+    const flagged = score >= FLAG_THRESHOLD;
+    const previous = existing.get(account.authorDid);
+    if (!flagged && !previous) continue;
+
+    const override = (previous?.override ?? "none") as FlagOverride;
+    rows.push({
+      authorDid: account.authorDid,
+      score,
+      flagged: flagged ? 1 : 0,
+      override,
+      excluded: isExcluded(flagged, override),
+      reasons,
+      posts: account.posts,
+      peakPostsPerMinute: account.peakPostsPerMinute,
+      duplicateShare: account.duplicateShare,
+      linkOnlyShare: account.linkOnlyShare,
+      scoredAt,
+      version,
+    });
+  }
+
+  // Flagged accounts that went quiet are no longer flagged
+  existing.forEach((previous, authorDid) => {
+    if (active.has(authorDid) || previous.flagged === 0) return;
+    const override = previous.override as FlagOverride;
+    rows.push({
+      ...previous,
+      score: 0,
+      flagged: 0,
+      excluded: isExcluded(false, override),
+      reasons: [],
+      posts: 0,
+      peakPostsPerMinute: 0,
+      duplicateShare: 0,
+      linkOnlyShare: 0,
+      scoredAt,
+      version,
+    });
+  });
+
+  if (rows.length > 0) {
+    await AccountFlagTable.insert(rows);
+  }
+  return {
+    scored: activity.length,
+    flagged: rows.filter((row) => row.flagged === 1).length,
+  };
+}
+
+/**
+ * Set an admin override on an account, keeping its latest scores
+ * Accounts without a row yet get one with a zero score.
+ */
+export async function overrideAccountFlag(
+  authorDid: string,
+  override: FlagOverride,
+): Promise<AccountFlag> {
+  const [previous] = await loadAccountFlags({ authorDid });
+  const now = new Date();
+  const flagged = previous?.flagged === 1;
+  const row: AccountFlag = {
+    authorDid,
+    score: previous?.score ?? 0,
+    flagged: flagged ? 1 : 0,
+    override,
+    excluded: isExcluded(flagged, override),
+    reasons: previous?.reasons ?? [],
+    posts: previous?.posts ?? 0,
+    peakPostsPerMinute: previous?.peakPostsPerMinute ?? 0,
+    duplicateShare: previous?.duplicateShare ?? 0,
+    linkOnlyShare: previous?.linkOnlyShare ?? 0,
+    scoredAt: previous ? new Date(previous.scoredAt) : now,
+    version: now.getTime(),
+  };
+  await AccountFlagTable.insert([row]);
+  return row;
+}
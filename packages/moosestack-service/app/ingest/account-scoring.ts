@@ -0,0 +1,53 @@
+/**
+ * Bot and spam scoring of an account's posting behaviour
+ *
+ * Kept apart from account-flags so the scoring can be tested without a
+ * database: each signal scales between a low and a high bound, and the
+ * signals combine like independent probabilities.
+ */
+
+// Scores at or above this flag the account
+export const FLAG_THRESHOLD = 0.8;
+
+// A signal at or above this is listed as a reason
+const REASON_THRESHOLD = 0.5;
+
+// Each signal scores 0 at its low bound and 1 at its high bound
+const PEAK_POSTS_PER_MINUTE = { low: 3, high: 15 };
+const DUPLICATE_SHARE = { low: 0.3, high: 0.8 };
+const LINK_ONLY_SHARE = { low: 0.5, high: 0.9 };
+
+/** Posting behaviour of one account over the scoring window */
+export interface AccountActivity {
+  authorDid: string;
+  posts: number;
+  peakPostsPerMinute: number;
+  duplicateShare: number;
+  linkOnlyShare: number;
+}
+
+function scale(value: number, { low, high }: { low: number; high: number }): number {
+  return Math.min(1, Math.max(0, (value - low) / (high - low)));
+}
+
+/**
+ * Score an account's activity; a single strong signal is enough to flag it,
+ * and weaker signals add up
+ */
+export function scoreActivity(activity: AccountActivity): {
+  score: number;
+  reasons: string[];
+} {
+  const signals: Array<[string, number]> = [
+    ["rate", scale(activity.peakPostsPerMinute, PEAK_POSTS_PER_MINUTE)],
+    ["duplicates", scale(activity.duplicateShare, DUPLICATE_SHARE)],
+    ["links", scale(activity.linkOnlyShare, LINK_ONLY_SHARE)],
+  ];
+  const human = signals.reduce((product, [, signal]) => product * (1 - signal), 1);
+  return {
+    score: Number((1 - human).toFixed(3)),
+    reasons: signals
+      .filter(([, signal]) => signal >= REASON_THRESHOLD)
+      .map(([reason]) => reason),
+  };
+}
@@ -1,179 +1,72 @@
+import { MooseCache } from "@514labs/moose-lib";
 import {
   BlueskyPostPipeline,
+  PostDeletionPipeline,
   WordOccurrencePipeline,
+  PhraseOccurrencePipeline,
+  HashtagOccurrencePipeline,
+  MentionOccurrencePipeline,
+  LinkOccurrencePipeline,
+  EmojiOccurrencePipeline,
+  EntityOccurrencePipeline,
+  PostSentimentPipeline,
   BlueskyPost,
+  PostDeletion,
   WordOccurrence,
+  PhraseOccurrence,
+  HashtagOccurrence,
+  MentionOccurrence,
+  LinkOccurrence,
+  EmojiOccurrence,
+  EntityOccurrence,
+  PostSentiment,
 } from "./models";
+import { claimFirstDelivery } from "./dedup";
+import { DetectedLanguage, detectLanguage } from "./language-detection";
+import { extractEmoji, tokenize, tokenizeClauses } from "./tokenizer";
+import { currentStopWords, isStopWord, StopWordLists } from "./stop-words";
+import { stem } from "./stemmer";
+import { extractEntities } from "./entities";
+import { scoreSentiment } from "./sentiment";
 
-// Common stop words to filter out (not meaningful for trend analysis)
-const STOP_WORDS = new Set([
-  // Articles
-  "a",
-  "an",
-  "the",
-  // Conjunctions
-  "and",
-  "or",
-  "but",
-  "nor",
-  "so",
-  "yet",
-  // Prepositions
-  "in",
-  "on",
-  "at",
-  "to",
-  "for",
-  "of",
-  "with",
-  "by",
-  "from",
-  "up",
-  "down",
-  "out",
-  "off",
-  "over",
-  "under",
-  "into",
-  "through",
-  "about",
-  "between",
-  "after",
-  "before",
-  // Verbs (common)
-  "is",
-  "are",
-  "was",
-  "were",
-  "be",
-  "been",
-  "being",
-  "have",
-  "has",
-  "had",
-  "do",
-  "does",
-  "did",
-  "will",
-  "would",
-  "could",
-  "should",
-  "may",
-  "might",
-  "must",
-  "can",
-  "get",
-  "got",
-  "go",
-  "going",
-  "went",
-  "come",
-  "came",
-  "make",
-  "made",
-  "take",
-  "took",
-  // Pronouns
-  "i",
-  "me",
-  "my",
-  "mine",
-  "myself",
-  "you",
-  "your",
-  "yours",
-  "yourself",
-  "he",
-  "him",
-  "his",
-  "himself",
-  "she",
-  "her",
-  "hers",
-  "herself",
-  "it",
-  "its",
-  "itself",
-  "we",
-  "us",
-  "our",
-  "ours",
-  "ourselves",
-  "they",
-  "them",
-  "their",
-  "theirs",
-  "themselves",
-  // Demonstratives
-  "this",
-  "that",
-  "these",
-  "those",
-  // Question words
-  "what",
-  "which",
-  "who",
-  "whom",
-  "whose",
-  "when",
-  "where",
-  "why",
-  "how",
-  // Other common words
-  "if",
-  "then",
-  "else",
-  "than",
-  "as",
-  "just",
-  "also",
-  "only",
-  "even",
-  "more",
-  "most",
-  "less",
-  "very",
-  "too",
-  "all",
-  "any",
-  "some",
-  "no",
-  "not",
-  "yes",
-  "now",
-  "here",
-  "there",
-  "still",
-  "well",
-  "back",
-  "way",
-  "like",
-  "know",
-  "think",
-  "see",
-  "want",
-  "say",
-  "said",
-  "really",
-  "trump",
-  "much",
-  "one",
-  "two",
-  "new",
-  "good",
-  "first",
-  "last",
-  "been",
-  "being",
-  "https",
-  "http",
-  "www",
-  "com",
-]);
+// Subtract the word counts of deleted posts from the aggregates. Off by
+// default because it keeps every post's counts in Redis for a day.
+const SUBTRACT_DELETED_WORDS = process.env.SUBTRACT_DELETED_WORDS === "true";
+
+// Store the stem of each word next to it, so inflected forms ("votes",
+// "voting") can be grouped. Off by default; without it the stem is the word.
+const STEM_WORDS = process.env.STEM_WORDS === "true";
+
+// How long counted words are kept for a later deletion
+const COUNTED_WORDS_TTL_SECONDS = 60 * 60 * 24;
+
+// Detected languages less certain than this are not used for trends
+const MIN_DETECTION_CONFIDENCE = 0.1;
+
+// Posts whose language is remembered, so the transforms and the debug
+// consumer handling the same post detect it once
+const LANGUAGE_CACHE_SIZE = 10_000;
 
 // Minimum word length to consider (filters out meaningless short words)
 const MIN_WORD_LENGTH = 3;
 
+// Minimum length for words in scripts where one character is a syllable or a
+// morpheme, so two-character words like "天気" are kept
+const MIN_DENSE_WORD_LENGTH = 2;
+
+// Longest phrase extracted, in words
+const MAX_PHRASE_WORDS = 3;
+
+// Hashtags in post text, for records without tag facets; a tag needs a
+// letter, so "#1" is not one
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*)/gu;
+
+// Links in post text, for records without link facets
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/gi;
+
+// Scripts whose words are much shorter than alphabetic ones
+const DENSE_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
 /**
  * Truncate a date to 10-second interval precision
  */
@@ -190,55 +83,259 @@ function truncateToInterval(date: Date): Date {
   );
 }
 
+/**
+ * 10-second interval a post belongs to
+ */
+function intervalOf(post: BlueskyPost): Date {
+  const postDate =
+    post.createdAt instanceof Date ? post.createdAt : new Date(post.createdAt);
+  return truncateToInterval(postDate);
+}
+
+/**
+ * Minimum length of a word, counted in code points
+ */
+function minWordLength(word: string): number {
+  return DENSE_SCRIPT.test(word) ? MIN_DENSE_WORD_LENGTH : MIN_WORD_LENGTH;
+}
+
+/**
+ * Whether a word is meaningful on its own: long enough, not a stop word of
+ * the post's language, and not a pure number
+ */
+function isKeyword(word: string, lang: string, stopWords: StopWordLists): boolean {
+  return (
+    [...word].length >= minWordLength(word) &&
+    !isStopWord(stopWords, word, lang) &&
+    /\p{L}/u.test(word)
+  );
+}
+
+/**
+ * Extract and normalize words from text, dropping the stop words of its language
+ */
+function extractWords(text: string, lang: string, stopWords: StopWordLists): string[] {
+  return tokenize(text).filter((word) => isKeyword(word, lang, stopWords));
+}
+
+/**
+ * Extract phrases of two to MAX_PHRASE_WORDS words within each clause
+ * A phrase starts and ends with a keyword, so stop words can only appear
+ * inside it ("bank of america"), never at its edges ("of america")
+ */
+function extractPhrases(text: string, lang: string, stopWords: StopWordLists): string[] {
+  const phrases: string[] = [];
+  for (const clause of tokenizeClauses(text)) {
+    const keyword = clause.map((word) => isKeyword(word, lang, stopWords));
+    const hasLetters = clause.map((word) => /\p{L}/u.test(word));
+
+    for (let start = 0; start < clause.length; start++) {
+      if (!keyword[start]) continue;
+      for (let end = start + 1; end < Math.min(clause.length, start + MAX_PHRASE_WORDS); end++) {
+        if (!hasLetters[end]) break;
+        if (keyword[end]) {
+          phrases.push(clause.slice(start, end + 1).join(" "));
+        }
+      }
+    }
+  }
+  return phrases;
+}
+
+/**
+ * Hashtags of a post, from its tag facets or, if it has none, from its text
+ */
+function extractHashtags(post: BlueskyPost): string[] {
+  const tags = (post.facets ?? [])
+    .filter((facet) => facet.type === "tag")
+    .map((facet) => facet.value);
+  if (tags.length === 0) {
+    for (const match of post.text.matchAll(HASHTAG_PATTERN)) {
+      tags.push(match[1]);
+    }
+  }
+
+  return tags
+    .map((tag) => tag.normalize("NFKC").replace(/^#+/, "").toLowerCase())
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * DIDs of the accounts a post mentions, from its mention facets
+ */
+function extractMentions(post: BlueskyPost): string[] {
+  return (post.facets ?? [])
+    .filter((facet) => facet.type === "mention")
+    .map((facet) => facet.value);
+}
+
+/**
+ * Host name of a link, lowercase and without "www."; null if it is not a
+ * valid http(s) URL
+ */
+function domainOf(uri: string): string | null {
+  try {
+    const url = new URL(uri);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return url.hostname.toLowerCase().replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Domains a post links to, one per distinct link
+ * Links come from link facets and the external embed; the text is only
+ * scanned when there are neither, since clients shorten links in the text.
+ */
+function extractLinkDomains(post: BlueskyPost): string[] {
+  const links = new Set(
+    (post.facets ?? [])
+      .filter((facet) => facet.type === "link")
+      .map((facet) => facet.value),
+  );
+  if (post.externalUri) {
+    links.add(post.externalUri);
+  }
+  if (links.size === 0) {
+    for (const match of post.text.matchAll(URL_PATTERN)) {
+      links.add(match[0]);
+    }
+  }
+
+  const domains: string[] = [];
+  links.forEach((link) => {
+    const domain = domainOf(link);
+    if (domain) domains.push(domain);
+  });
+  return domains;
+}
+
+/**
+ * Count how often each item occurs
+ */
+function countOccurrences(items: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(item, (counts.get(item) || 0) + 1);
+  }
+  return counts;
+}
 
 /**
- * Extract and normalize words from text
+ * Classify a post for filtering trends; a reply that quotes counts as a reply
  */
-function extractWords(text: string): string[] {
-  // Remove URLs
-  const withoutUrls = text.replace(/https?:\/\/\S+/gi, "");
-
-  // Remove mentions (@handle) and hashtags for separate processing
-  const withoutMentions = withoutUrls.replace(/@[\w.]+/g, "");
-
-  // Extract words: lowercase, remove punctuation, split on whitespace
-  const words = withoutMentions
-    .toLowerCase()
-    .replace(/[^\w\s#]/g, " ") // Keep # for hashtags
-    .split(/\s+/)
-    .map((word) => word.replace(/^#+/, "")) // Remove leading # from hashtags
-    .filter((word) => word.length >= MIN_WORD_LENGTH)
-    .filter((word) => !STOP_WORDS.has(word))
-    .filter((word) => !/^\d+$/.test(word)); // Filter pure numbers
-
-  return words;
+function postTypeOf(post: BlueskyPost): string {
+  if (post.replyParentUri) return "reply";
+  if (post.quotedUri) return "quote";
+  return "original";
+}
+
+/** Detected and primary language of a post */
+interface PostLanguage {
+  detected: DetectedLanguage;
+  /** Primary language subtag, or "unknown" */
+  lang: string;
+}
+
+const recentLanguages = new Map<string, PostLanguage>();
+
+/**
+ * Primary language of a post: the base subtag of its first declared language,
+ * so "pt-BR" and "pt" trend together. Posts that declare none fall back to the
+ * detected language when the detector is confident enough.
+ */
+function primaryLanguage(post: BlueskyPost, detected: DetectedLanguage): string {
+  const tag = post.langs?.[0];
+  if (tag) return tag.split("-")[0].toLowerCase();
+  return detected.confidence >= MIN_DETECTION_CONFIDENCE ? detected.lang : "unknown";
+}
+
+/**
+ * Language of a post, detected once per post: every stream handler of a post
+ * needs it, and detection scans the whole text
+ */
+function languageOf(post: BlueskyPost): PostLanguage {
+  const cached = recentLanguages.get(post.postId);
+  if (cached) return cached;
+
+  const detected = detectLanguage(post.text);
+  const language = { detected, lang: primaryLanguage(post, detected) };
+  if (recentLanguages.size >= LANGUAGE_CACHE_SIZE) {
+    // Maps keep insertion order, so the first key is the oldest post
+    recentLanguages.delete(recentLanguages.keys().next().value!);
+  }
+  recentLanguages.set(post.postId, language);
+  return language;
+}
+
+/**
+ * Sentiment of a post in its primary language, undefined unless that is
+ * English: the lexicon is English, so other languages would score as noise
+ */
+function sentimentOf(post: BlueskyPost, lang: string): number | undefined {
+  return lang === "en" ? scoreSentiment(post.text) : undefined;
+}
+
+function countedWordsKey(postId: string): string {
+  return `bluesky:counted:words:${postId}`;
+}
+
+/**
+ * Remember the occurrences counted for a post so a deletion can subtract them
+ */
+async function rememberCountedWords(postId: string, occurrences: WordOccurrence[]) {
+  try {
+    const cache = await MooseCache.get();
+    await cache.set(countedWordsKey(postId), occurrences, COUNTED_WORDS_TTL_SECONDS);
+  } catch (err) {
+    console.error("[Bluesky] Failed to remember counted words:", err);
+  }
+}
+
+/**
+ * Fetch and forget the occurrences counted for a post
+ */
+async function takeCountedWords(postId: string): Promise<WordOccurrence[]> {
+  try {
+    const cache = await MooseCache.get();
+    const occurrences = await cache.get<WordOccurrence[]>(countedWordsKey(postId));
+    if (!occurrences) return [];
+    await cache.delete(countedWordsKey(postId));
+    return occurrences;
+  } catch (err) {
+    console.error("[Bluesky] Failed to fetch counted words:", err);
+    return [];
+  }
 }
 
 /**
  * Transform BlueskyPost to WordOccurrence records
  * Groups words and counts occurrences per 10-second interval
+ * Posts replayed after a reconnect are skipped so counts are not doubled
  */
 BlueskyPostPipeline.stream!.addTransform(
   WordOccurrencePipeline.stream!,
   async (post: BlueskyPost): Promise<WordOccurrence[]> => {
-    const words = extractWords(post.text);
+    if (!(await claimFirstDelivery("words", post.postId))) {
+      return [];
+    }
+
+    const { detected, lang } = languageOf(post);
+    const words = extractWords(post.text, lang, await currentStopWords());
 
     if (words.length === 0) {
       return [];
     }
 
     // Get the 10-second interval timestamp for grouping
-    const postDate =
-      post.createdAt instanceof Date
-        ? post.createdAt
-        : new Date(post.createdAt);
-    const interval = truncateToInterval(postDate);
+    const interval = intervalOf(post);
+
+    const postType = postTypeOf(post);
+    const sentiment = sentimentOf(post, lang);
 
     // Count word occurrences
-    const wordCounts = new Map<string, number>();
-    for (const word of words) {
-      wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
-    }
+    const wordCounts = countOccurrences(words);
 
     // Create WordOccurrence records
     const occurrences: WordOccurrence[] = [];
@@ -246,17 +343,297 @@ BlueskyPostPipeline.stream!.addTransform(
       occurrences.push({
         intervalTimestamp: interval,
         word,
+        stem: STEM_WORDS ? stem(word, lang) : word,
+        count,
+        postId: post.postId,
+        authorDid: post.authorDid,
+        postType,
+        lang,
+        detectedLang: detected.lang,
+        langConfidence: detected.confidence,
+        sentiment,
+      });
+    });
+
+    if (SUBTRACT_DELETED_WORDS) {
+      await rememberCountedWords(post.postId, occurrences);
+    }
+
+    return occurrences;
+  },
+);
+
+/**
+ * Transform BlueskyPost to PhraseOccurrence records
+ * Phrases are counted per post like words, under their own delivery claim
+ */
+BlueskyPostPipeline.stream!.addTransform(
+  PhraseOccurrencePipeline.stream!,
+  async (post: BlueskyPost): Promise<PhraseOccurrence[]> => {
+    if (!(await claimFirstDelivery("phrases", post.postId))) {
+      return [];
+    }
+
+    const { lang } = languageOf(post);
+    const phrases = extractPhrases(post.text, lang, await currentStopWords());
+
+    if (phrases.length === 0) {
+      return [];
+    }
+
+    const interval = intervalOf(post);
+    const postType = postTypeOf(post);
+
+    const occurrences: PhraseOccurrence[] = [];
+    countOccurrences(phrases).forEach((count, phrase) => {
+      occurrences.push({
+        intervalTimestamp: interval,
+        phrase,
+        size: phrase.split(" ").length,
+        count,
+        postId: post.postId,
+        authorDid: post.authorDid,
+        postType,
+        lang,
+      });
+    });
+    return occurrences;
+  },
+);
+
+/**
+ * Transform BlueskyPost to HashtagOccurrence records
+ * Hashtags are kept apart from words, so "#ai" and "ai" trend separately
+ */
+BlueskyPostPipeline.stream!.addTransform(
+  HashtagOccurrencePipeline.stream!,
+  async (post: BlueskyPost): Promise<HashtagOccurrence[]> => {
+    const hashtags = extractHashtags(post);
+    if (hashtags.length === 0) {
+      return [];
+    }
+    if (!(await claimFirstDelivery("hashtags", post.postId))) {
+      return [];
+    }
+
+    const interval = intervalOf(post);
+    const postType = postTypeOf(post);
+    const { lang } = languageOf(post);
+
+    const occurrences: HashtagOccurrence[] = [];
+    countOccurrences(hashtags).forEach((count, hashtag) => {
+      occurrences.push({
+        intervalTimestamp: interval,
+        hashtag,
+        count,
+        postId: post.postId,
+        authorDid: post.authorDid,
+        postType,
+        lang,
+      });
+    });
+    return occurrences;
+  },
+);
+
+/**
+ * Transform BlueskyPost to MentionOccurrence records
+ */
+BlueskyPostPipeline.stream!.addTransform(
+  MentionOccurrencePipeline.stream!,
+  async (post: BlueskyPost): Promise<MentionOccurrence[]> => {
+    const mentions = extractMentions(post);
+    if (mentions.length === 0) {
+      return [];
+    }
+    if (!(await claimFirstDelivery("mentions", post.postId))) {
+      return [];
+    }
+
+    const interval = intervalOf(post);
+    const postType = postTypeOf(post);
+    const { lang } = languageOf(post);
+
+    const occurrences: MentionOccurrence[] = [];
+    countOccurrences(mentions).forEach((count, did) => {
+      occurrences.push({
+        intervalTimestamp: interval,
+        did,
+        count,
+        postId: post.postId,
+        authorDid: post.authorDid,
+        postType,
+        lang,
+      });
+    });
+    return occurrences;
+  },
+);
+
+/**
+ * Transform BlueskyPost to LinkOccurrence records, one per linked domain
+ */
+BlueskyPostPipeline.stream!.addTransform(
+  LinkOccurrencePipeline.stream!,
+  async (post: BlueskyPost): Promise<LinkOccurrence[]> => {
+    const domains = extractLinkDomains(post);
+    if (domains.length === 0) {
+      return [];
+    }
+    if (!(await claimFirstDelivery("links", post.postId))) {
+      return [];
+    }
+
+    const interval = intervalOf(post);
+    const postType = postTypeOf(post);
+    const { lang } = languageOf(post);
+
+    const occurrences: LinkOccurrence[] = [];
+    countOccurrences(domains).forEach((count, domain) => {
+      occurrences.push({
+        intervalTimestamp: interval,
+        domain,
         count,
+        postId: post.postId,
+        authorDid: post.authorDid,
+        postType,
+        lang,
       });
     });
+    return occurrences;
+  },
+);
+
+/**
+ * Transform BlueskyPost to EmojiOccurrence records
+ */
+BlueskyPostPipeline.stream!.addTransform(
+  EmojiOccurrencePipeline.stream!,
+  async (post: BlueskyPost): Promise<EmojiOccurrence[]> => {
+    const emoji = extractEmoji(post.text);
+    if (emoji.length === 0) {
+      return [];
+    }
+    if (!(await claimFirstDelivery("emoji", post.postId))) {
+      return [];
+    }
+
+    const interval = intervalOf(post);
+    const postType = postTypeOf(post);
+    const { lang } = languageOf(post);
 
+    const occurrences: EmojiOccurrence[] = [];
+    countOccurrences(emoji).forEach((count, value) => {
+      occurrences.push({
+        intervalTimestamp: interval,
+        emoji: value,
+        count,
+        postId: post.postId,
+        authorDid: post.authorDid,
+        postType,
+        lang,
+      });
+    });
     return occurrences;
   },
 );
 
+/**
+ * Transform BlueskyPost to EntityOccurrence records
+ * Single capitalized words that are stop words, like "The" after a colon, are
+ * not entities
+ */
+BlueskyPostPipeline.stream!.addTransform(
+  EntityOccurrencePipeline.stream!,
+  async (post: BlueskyPost): Promise<EntityOccurrence[]> => {
+    const { lang } = languageOf(post);
+    const stopWords = await currentStopWords();
+
+    const entities = extractEntities(post.text).filter(
+      ({ name, type }) =>
+        type !== "candidate" ||
+        name.includes(" ") ||
+        !isStopWord(stopWords, name.toLowerCase(), lang),
+    );
+    if (entities.length === 0) {
+      return [];
+    }
+    if (!(await claimFirstDelivery("entities", post.postId))) {
+      return [];
+    }
+
+    const interval = intervalOf(post);
+    const postType = postTypeOf(post);
+
+    // Count by name and type; a name is only ever given one type
+    const types = new Map(entities.map(({ name, type }) => [name, type]));
+    const occurrences: EntityOccurrence[] = [];
+    countOccurrences(entities.map(({ name }) => name)).forEach((count, entity) => {
+      occurrences.push({
+        intervalTimestamp: interval,
+        entity,
+        type: types.get(entity)!,
+        count,
+        postId: post.postId,
+        authorDid: post.authorDid,
+        postType,
+        lang,
+      });
+    });
+    return occurrences;
+  },
+);
+
+/**
+ * Transform PostDeletion to negative WordOccurrence records
+ * Only posts counted within the last day can be subtracted; SummingMergeTree
+ * adds the negative counts into WordTrends like any other occurrence
+ */
+PostDeletionPipeline.stream!.addTransform(
+  WordOccurrencePipeline.stream!,
+  async (deletion: PostDeletion): Promise<WordOccurrence[]> => {
+    if (!SUBTRACT_DELETED_WORDS) {
+      return [];
+    }
+    if (!(await claimFirstDelivery("word-deletions", deletion.postId))) {
+      return [];
+    }
+
+    const counted = await takeCountedWords(deletion.postId);
+    return counted.map((occurrence) => ({
+      intervalTimestamp: new Date(occurrence.intervalTimestamp),
+      word: occurrence.word,
+      stem: occurrence.stem,
+      count: -occurrence.count,
+      postId: occurrence.postId,
+      authorDid: occurrence.authorDid,
+      postType: occurrence.postType,
+      lang: occurrence.lang,
+      detectedLang: occurrence.detectedLang,
+      langConfidence: occurrence.langConfidence,
+      sentiment: occurrence.sentiment,
+    }));
+  },
+);
+
+/**
+ * Transform BlueskyPost to PostSentiment records
+ * Scored here rather than by the firehose sources, so posts sent to the
+ * ingest API are scored too
+ */
+BlueskyPostPipeline.stream!.addTransform(
+  PostSentimentPipeline.stream!,
+  (post: BlueskyPost): PostSentiment | null => {
+    const sentiment = sentimentOf(post, languageOf(post).lang);
+    if (sentiment === undefined) return null;
+    return { postId: post.postId, createdAt: post.createdAt, sentiment };
+  },
+);
+
 // Log processed posts for debugging
-BlueskyPostPipeline.stream!.addConsumer((post: BlueskyPost) => {
-  const words = extractWords(post.text);
+BlueskyPostPipeline.stream!.addConsumer(async (post: BlueskyPost) => {
+  const { lang } = languageOf(post);
+  const words = extractWords(post.text, lang, await currentStopWords());
   if (words.length > 0) {
     console.log(
       `[Bluesky] Processed post with ${words.length} words: ${words.slice(0, 5).join(", ")}...`,
@@ -0,0 +1,33 @@
+import { MooseCache } from "@514labs/moose-lib";
+
+/**
+ * Redis-backed seen-set for stream consumers
+ *
+ * Resuming from a cursor replays some posts, so every consumer that derives
+ * counts from BlueskyPost claims each post once per scope. Claims expire after
+ * a day, which comfortably covers any replay window.
+ */
+
+const SEEN_TTL_SECONDS = 60 * 60 * 24;
+
+/**
+ * Claim a post for a consumer. Returns false if the consumer already saw it.
+ * Fails open when Redis is unavailable, so outages never stall the stream.
+ */
+export async function claimFirstDelivery(
+  scope: string,
+  postId: string,
+): Promise<boolean> {
+  try {
+    const cache = await MooseCache.get();
+    const previous = await cache.set(
+      `bluesky:seen:${scope}:${postId}`,
+      "1",
+      SEEN_TTL_SECONDS,
+    );
+    return previous === null;
+  } catch (err) {
+    console.error("[Dedup] Failed to check seen-set:", err);
+    return true;
+  }
+}
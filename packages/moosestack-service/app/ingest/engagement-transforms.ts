@@ -0,0 +1,48 @@
+import {
+  PostLikePipeline,
+  PostRepostPipeline,
+  EngagementEventPipeline,
+  PostLike,
+  PostRepost,
+  EngagementEvent,
+} from "./models";
+import { claimFirstDelivery } from "./dedup";
+
+/**
+ * Transform PostLike to an EngagementEvent
+ * Likes replayed after a reconnect are skipped so engagement is not doubled
+ */
+PostLikePipeline.stream!.addTransform(
+  EngagementEventPipeline.stream!,
+  async (like: PostLike): Promise<EngagementEvent | null> => {
+    if (!(await claimFirstDelivery("likes", like.likeUri))) {
+      return null;
+    }
+
+    return {
+      subjectUri: like.subjectUri,
+      kind: "like",
+      actorDid: like.actorDid,
+      createdAt: like.createdAt,
+    };
+  },
+);
+
+/**
+ * Transform PostRepost to an EngagementEvent
+ */
+PostRepostPipeline.stream!.addTransform(
+  EngagementEventPipeline.stream!,
+  async (repost: PostRepost): Promise<EngagementEvent | null> => {
+    if (!(await claimFirstDelivery("reposts", repost.repostUri))) {
+      return null;
+    }
+
+    return {
+      subjectUri: repost.subjectUri,
+      kind: "repost",
+      actorDid: repost.actorDid,
+      createdAt: repost.createdAt,
+    };
+  },
+);
@@ -0,0 +1,264 @@
+/**
+ * Named-entity candidates from the original, cased text of a post
+ *
+ * Word extraction lowercases everything, which merges "Apple" the company
+ * with "apple" the fruit and splits names like "New York". Entities are found
+ * two ways, both on the text as written:
+ * - Names from a small gazetteer of well-known people, organizations and
+ *   places, matched case-sensitively anywhere in the text
+ * - Other runs of capitalized words, like "Jane Smith" or "Bank of England",
+ *   that do not start a sentence, where a capital letter says nothing
+ */
+
+export type EntityType = "person" | "organization" | "place" | "candidate";
+
+export interface EntityMatch {
+  name: string; // Words as written, joined by single spaces
+  type: EntityType; // Gazetteer type, or "candidate" for capitalized runs
+}
+
+/**
+ * Well-known entities by type, as they are usually written
+ */
+const GAZETTEER: Record<Exclude<EntityType, "candidate">, string[]> = {
+  person: [
+    "Joe Biden",
+    "Kamala Harris",
+    "Donald Trump",
+    "Barack Obama",
+    "Elon Musk",
+    "Mark Zuckerberg",
+    "Jeff Bezos",
+    "Taylor Swift",
+    "Beyoncé",
+    "Vladimir Putin",
+    "Volodymyr Zelensky",
+    "Xi Jinping",
+    "Emmanuel Macron",
+    "Keir Starmer",
+    "Pope Francis",
+    "Jay Graber",
+  ],
+  organization: [
+    "Apple",
+    "Google",
+    "Microsoft",
+    "Amazon",
+    "Meta",
+    "Tesla",
+    "SpaceX",
+    "OpenAI",
+    "Anthropic",
+    "Nvidia",
+    "Netflix",
+    "Disney",
+    "Bluesky",
+    "Twitter",
+    "Threads",
+    "Mastodon",
+    "NASA",
+    "FBI",
+    "CIA",
+    "NATO",
+    "United Nations",
+    "European Union",
+    "Supreme Court",
+    "Congress",
+    "Senate",
+    "White House",
+    "Democrats",
+    "Republicans",
+    "BBC",
+    "CNN",
+    "Fox News",
+    "New York Times",
+    "Washington Post",
+    "NFL",
+    "NBA",
+    "FIFA",
+  ],
+  place: [
+    "United States",
+    "New York",
+    "Los Angeles",
+    "San Francisco",
+    "Washington",
+    "California",
+    "Texas",
+    "Florida",
+    "Canada",
+    "Mexico",
+    "Brazil",
+    "United Kingdom",
+    "London",
+    "Paris",
+    "Berlin",
+    "Germany",
+    "France",
+    "Spain",
+    "Italy",
+    "Ukraine",
+    "Russia",
+    "China",
+    "Japan",
+    "Tokyo",
+    "India",
+    "Israel",
+    "Gaza",
+    "Australia",
+  ],
+};
+
+// Lowercase words that can join capitalized words into one name, as in
+// "Bank of England" or "Ludwig van Beethoven"
+const CONNECTORS = new Set([
+  "of",
+  "de",
+  "del",
+  "der",
+  "di",
+  "da",
+  "du",
+  "la",
+  "le",
+  "van",
+  "von",
+]);
+
+// Longest name kept, in words
+const MAX_ENTITY_WORDS = 5;
+
+// Separators that end a sentence; the next word is capitalized regardless
+const SENTENCE_END = /[.!?…。！？\n]/u;
+
+// Locale-independent word segmentation
+const segmenter = new Intl.Segmenter(undefined, { granularity: "word" });
+
+interface Word {
+  text: string;
+  sentenceStart: boolean; // First word of the text or of a sentence
+  joined: boolean; // Separated from the previous word by spaces only
+}
+
+/** Gazetteer names split into words, grouped by their first word */
+const GAZETTEER_NAMES = new Map<string, Array<{ words: string[]; type: EntityType }>>();
+for (const [type, names] of Object.entries(GAZETTEER)) {
+  for (const name of names) {
+    const words = name.split(" ");
+    const entries = GAZETTEER_NAMES.get(words[0]) ?? [];
+    entries.push({ words, type: type as EntityType });
+    // Longest names first, so "New York Times" wins over "New York"
+    entries.sort((a, b) => b.words.length - a.words.length);
+    GAZETTEER_NAMES.set(words[0], entries);
+  }
+}
+
+/**
+ * Words of the text with their position in sentences; links, @mentions and
+ * #hashtags are removed and break names around them
+ */
+function wordsOf(text: string): Word[] {
+  const cleaned = text
+    .normalize("NFKC")
+    .replace(/https?:\/\/\S+/gi, " | ")
+    .replace(/[@#][\p{L}\p{N}_.-]+/gu, " | ");
+
+  const words: Word[] = [];
+  let sentenceStart = true;
+  let joined = false;
+  for (const { segment, isWordLike } of segmenter.segment(cleaned)) {
+    if (!isWordLike) {
+      if (SENTENCE_END.test(segment)) sentenceStart = true;
+      joined = joined && /^[ \t]+$/.test(segment);
+      continue;
+    }
+    words.push({ text: segment, sentenceStart, joined });
+    sentenceStart = false;
+    joined = true;
+  }
+  return words;
+}
+
+function isCapitalized(word: string): boolean {
+  return /^\p{Lu}/u.test(word);
+}
+
+/**
+ * Length of the gazetteer name starting at word i, with its type
+ */
+function gazetteerMatch(
+  words: Word[],
+  i: number,
+): { length: number; type: EntityType } | null {
+  for (const entry of GAZETTEER_NAMES.get(words[i].text) ?? []) {
+    const length = entry.words.length;
+    if (i + length > words.length) continue;
+    const matches = entry.words.every(
+      (word, offset) =>
+        words[i + offset].text === word && (offset === 0 || words[i + offset].joined),
+    );
+    if (matches) return { length, type: entry.type };
+  }
+  return null;
+}
+
+/**
+ * Entity candidates in a post's text, in order of appearance
+ */
+export function extractEntities(text: string): EntityMatch[] {
+  const words = wordsOf(text);
+  const entities: EntityMatch[] = [];
+
+  // Text in capitals throughout is shouting, not names
+  const letters = text.replace(/[^\p{L}]/gu, "");
+  const shouting = letters.length > 0 && letters === letters.toUpperCase();
+
+  let run: Word[] = [];
+  const endRun = () => {
+    // Connectors only join names, so drop any at the end
+    while (run.length > 0 && !isCapitalized(run[run.length - 1].text)) run.pop();
+    // A sentence's first word is capitalized anyway; the rest of the run
+    // still reads as a name when two or more words remain
+    if (run[0]?.sentenceStart) {
+      run = run.length > 2 ? run.slice(1) : [];
+    }
+    // Single letters, like "I", are not names
+    if (run.length === 1 && run[0].text.length < 2) run = [];
+    if (run.length > 0 && run.length <= MAX_ENTITY_WORDS && !shouting) {
+      entities.push({
+        name: run.map((word) => word.text).join(" "),
+        type: "candidate",
+      });
+    }
+    run = [];
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const match = gazetteerMatch(words, i);
+    if (match) {
+      endRun();
+      entities.push({
+        name: words
+          .slice(i, i + match.length)
+          .map((word) => word.text)
+          .join(" "),
+        type: match.type,
+      });
+      i += match.length - 1;
+      continue;
+    }
+
+    const word = words[i];
+    if (run.length > 0 && !word.joined) endRun();
+    if (isCapitalized(word.text)) {
+      run.push(word);
+    } else if (run.length > 0 && CONNECTORS.has(word.text)) {
+      run.push(word);
+    } else {
+      endRun();
+    }
+  }
+  endRun();
+
+  return entities;
+}
@@ -0,0 +1,139 @@
+/**
+ * Offline language identification for posts without a declared language
+ *
+ * Non-Latin scripts are identified by the characters they use. Latin-script
+ * text is scored against small character trigram profiles of the languages
+ * most common on Bluesky, with words padded by "_" so prefixes and suffixes
+ * count. Everything runs in-process; nothing is downloaded.
+ */
+
+export interface DetectedLanguage {
+  lang: string; // ISO 639-1 code, or "unknown"
+  confidence: number; // 0 (a guess) to 1 (certain)
+}
+
+const UNKNOWN: DetectedLanguage = { lang: "unknown", confidence: 0 };
+
+// Fewer Latin letters than this is too little text to identify
+const MIN_LETTERS = 8;
+
+// Trigram count at which a clear winner gets full confidence
+const FULL_CONFIDENCE_TRIGRAMS = 40;
+
+/**
+ * Most frequent trigrams per language, most frequent first
+ */
+const TRIGRAM_PROFILES: Record<string, string> = {
+  en: "_th the he_ _an nd_ and ed_ ing ng_ _to to_ _of of_ er_ _in in_ is_ _is _a_ ion _wh hat tha at_ _it it_ for _fo or_ es_ ent re_ on_ _be ll_ you _yo ou_ ere ter his thi _ha ve_ was _wa _re ly_ all _so _my my_ _we _no _ca _wi wit ith th_ _on _me me_ _ju jus ust _ju ke_ _li _do ght igh",
+  es: "_de de_ _la la_ os_ _el el_ _qu que ue_ _en en_ es_ as_ _co ent _lo los _se do_ ado _y_ nte ión ón_ ció _pa par ara _es est _un una con _po por or_ ra_ _no mos las _ma ien _me _ha er_ ar_ ir_ ía_ _mi mis _tu tu_ más ás_ _al _pe ero ño_ _y_ _ya ya_ _mu muy uy_ qué ué_ hoy",
+  pt: "_de de_ os_ _qu que ue_ _co ão_ ção _a_ _o_ do_ da_ _da _do _pa ent _se _em em_ com _nã não ara _um uma as_ es_ nte men ado ida est _es _pr _po por mos ela ele _fo foi mai ais _ma ess tá_ nho _vo voc ocê cê_ ões _é_ ém_ _ta _ma _nã ção ões _ag aqu _mu mui uit ito ent _eu eu_ _tu _co",
+  fr: "_de de_ es_ _le le_ _la la_ ent _et et_ les _qu que ue_ _pa _un un_ on_ _co _po pas our ous _en nt_ re_ ait ais _ce _je je_ _ne ne_ _vo vou est _il il_ eur ion _du du_ _à_ lle _so des tre ça_ _qu qui _vo _no ons nou _av avo ai_ _ét été _tr tou _to _pl _ma _mo moi _ça",
+  de: "_de der er_ die ie_ _di en_ ich ch_ _un und nd_ ein _ei sch _sc _ge den cht ten _da das as_ _ni nic ist _is st_ _zu zu_ ung ng_ _mi mit it_ _au auf uf_ ine _si sie _be ber che nde gen _we ach für _ma _ha hab _au _ic _no _ke kei _ja _wi wir _er _mu _ko _al _ab",
+  it: "_di di_ _la la_ _il il_ _ch che he_ _co to_ _e_ re_ _de del ell lla ent _pe per er_ _un una no_ _no non on_ _in zio ion one ne_ _so _qu _è_ _si ato _ma are gli _gl lo_ ta_ tto ere _le sta _mi _ho ho_ _gi _ci _ve _an _fa _pr pre _qu qua _ne ndo _ch chi _so _ga",
+  nl: "_de de_ en_ _he het et_ _ee een _va van an_ _en _ik ik_ _da dat at_ _is is_ _ni nie iet _ge _te ij_ ijk _op op_ _me met _vo voo oor or_ _zi _ze aar _wa wat cht sch ver _ve ten _ma maa _ni _ja _ni _ki _mo _oo ook ok_ _na _wo _zo zo_ _ko kan lij eli _ui uit _wi wil _hi",
+};
+
+/** Trigram → weight per language, the most frequent trigram weighing most */
+const PROFILE_WEIGHTS = new Map(
+  Object.entries(TRIGRAM_PROFILES).map(([lang, profile]) => {
+    const trigrams = [...new Set(profile.split(" "))];
+    const weights = new Map(
+      trigrams.map((trigram, rank) => [trigram, 1 - rank / trigrams.length]),
+    );
+    return [lang, weights];
+  }),
+);
+
+/**
+ * Scripts that identify a language on their own, checked in order
+ * Kana before Han so Japanese is not taken for Chinese, and Ukrainian-only
+ * letters before the rest of Cyrillic
+ */
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/gu, "ja"],
+  [/\p{Script=Hangul}/gu, "ko"],
+  [/\p{Script=Han}/gu, "zh"],
+  [/[іїєґ]/gu, "uk"],
+  [/\p{Script=Cyrillic}/gu, "ru"],
+  [/\p{Script=Arabic}/gu, "ar"],
+  [/\p{Script=Hebrew}/gu, "he"],
+  [/\p{Script=Greek}/gu, "el"],
+  [/\p{Script=Thai}/gu, "th"],
+  [/\p{Script=Devanagari}/gu, "hi"],
+];
+
+/**
+ * Lowercase words of the text, without links, mentions and hashtags
+ */
+function wordsOf(text: string): string[] {
+  return text
+    .replace(/https?:\/\/\S+/gi, " ")
+    .replace(/[@#][\p{L}\p{N}_.-]+/gu, " ")
+    .toLowerCase()
+    .split(/[^\p{L}]+/u)
+    .filter((word) => word.length > 0);
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Identify a language by script when most letters are non-Latin
+ */
+function detectScript(letters: string): DetectedLanguage | null {
+  const nonLatin = letters.length - countMatches(letters, /\p{Script=Latin}/gu);
+  if (nonLatin < letters.length / 2) return null;
+
+  for (const [pattern, lang] of SCRIPT_LANGUAGES) {
+    const count = countMatches(letters, pattern);
+    if (count === 0) continue;
+    // Confidence is the share of the text in the identifying script
+    return { lang, confidence: Number((nonLatin / letters.length).toFixed(2)) };
+  }
+  return UNKNOWN;
+}
+
+/**
+ * Score Latin-script words against the trigram profiles
+ */
+function detectLatin(words: string[]): DetectedLanguage {
+  const trigrams: string[] = [];
+  for (const word of words) {
+    const padded = `_${word}_`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      trigrams.push(padded.slice(i, i + 3));
+    }
+  }
+
+  const scores: Array<[string, number]> = [];
+  PROFILE_WEIGHTS.forEach((weights, lang) => {
+    let score = 0;
+    for (const trigram of trigrams) {
+      score += weights.get(trigram) ?? 0;
+    }
+    scores.push([lang, score]);
+  });
+  scores.sort((a, b) => b[1] - a[1]);
+
+  const [[lang, best], [, second]] = scores;
+  if (best === 0) return UNKNOWN;
+
+  // Margin over the runner-up, discounted for short texts
+  const margin = (best - second) / best;
+  const coverage = Math.min(1, trigrams.length / FULL_CONFIDENCE_TRIGRAMS);
+  return { lang, confidence: Number((margin * coverage).toFixed(2)) };
+}
+
+/**
+ * Detect the language of a post's text
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const words = wordsOf(text);
+  const letters = words.join("");
+  if (letters.length === 0) return UNKNOWN;
+
+  const byScript = detectScript(letters);
+  if (byScript) return byScript;
+  return letters.length < MIN_LETTERS ? UNKNOWN : detectLatin(words);
+}
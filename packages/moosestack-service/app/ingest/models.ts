@@ -1,39 +1,326 @@
-import { IngestPipeline, Key, OlapTable, DateTime } from "@514labs/moose-lib";
+import {
+  IngestPipeline,
+  Key,
+  OlapTable,
+  DateTime,
+  ClickHouseEngines,
+  UInt8,
+  UInt32,
+  UInt64,
+  Float32,
+  LowCardinality,
+  WithDefault,
+} from "@514labs/moose-lib";
 import typia, { tags } from "typia";
 
 /**
  * Bluesky Firehose Data Pipeline
  *
  * BlueskyPost (raw) → Transform (word extraction) → WordOccurrence (aggregated) → ClickHouse
+ * WordOccurrence → WordTrends MV (counts) / WordAuthorTrends MV (distinct authors)
+ * BlueskyPost (raw) → Transform (phrase extraction) → PhraseOccurrence → PhraseTrends MV
+ * BlueskyPost (raw) → Transform (hashtag extraction) → HashtagOccurrence → HashtagTrends MV
+ * BlueskyPost (raw) → Transform (mentions, link domains) → MentionOccurrence / LinkOccurrence → Trends MVs
+ * BlueskyPost (raw) → Transform (emoji extraction) → EmojiOccurrence → EmojiTrends MV
+ * BlueskyPost (raw) → Transform (entity extraction) → EntityOccurrence → EntityTrends MV
+ * BlueskyPost (raw) → Transform (sentiment scoring) → PostSentiment
+ * PostDeletion (tombstone) → PostTombstones MV → BlueskyPost (masked)
+ * PostLike / PostRepost → Transform (dedup) → EngagementEvent → PostEngagement MV
+ * BlueskyPost → account-flags workflow (bot heuristics) → AccountFlag
  */
 
-/** Raw post from Bluesky firehose */
+/** Rich text annotation on a span of a post's text, one per feature */
+export interface PostFacet {
+  byteStart: UInt32; // UTF-8 byte offset where the span starts
+  byteEnd: UInt32; // UTF-8 byte offset where the span ends (exclusive)
+  type: string; // "link", "mention" or "tag"
+  value: string; // Link URI, mentioned DID or tag
+}
+
+/**
+ * Raw post from Bluesky firehose
+ * Only createdAt, postId, text and authorDid are needed on
+ * POST /ingest/BlueskyPost; the other columns have defaults.
+ */
 export interface BlueskyPost {
-  createdAt: Key<DateTime>; // Post timestamp (primary key for time-series)
-  postId: string; // AT URI or CID
+  createdAt: DateTime; // Post timestamp
+  postId: Key<string>; // AT URI or CID (deduplication key)
   text: string; // Post content
   authorDid: string; // Author's DID
+  backfilled: WithDefault<boolean, "false">; // Ingested by the backfill workflow rather than live
+  version: WithDefault<UInt64, "0">; // Event time in microseconds; the newest row per postId wins
+  deleted: WithDefault<UInt8, "0">; // 1 for tombstones written when the post is deleted
+  langs: WithDefault<string[], "[]">; // BCP-47 language tags declared by the author
+  replyParentUri?: string; // Post this replies to
+  replyRootUri?: string; // First post of the thread this replies in
+  quotedUri?: string; // Record quoted by this post
+  embedType: WithDefault<string & LowCardinality, "'none'">; // none, images, external, video, record or other
+  externalUri?: string; // Link of an external embed (link card)
+  facets: WithDefault<PostFacet[], "[]">; // Links, mentions and tags
+}
+
+/** Deletion of a post, captured from delete commits */
+export interface PostDeletion {
+  postId: Key<string>; // AT URI of the deleted post
+  authorDid: string; // Author's DID
+  deletedAt: DateTime; // Deletion timestamp
+  postCreatedAt?: DateTime; // Creation time from the post's record key, when it is a TID
+  version: UInt64; // Event time in microseconds, newer than the post's
+}
+
+/** Like of a post */
+export interface PostLike {
+  likeUri: Key<string>; // AT URI of the like record
+  subjectUri: string; // AT URI of the liked post
+  actorDid: string; // DID of the account that liked
+  createdAt: DateTime; // Like timestamp
 }
 
-/** Aggregated word occurrence per 10-second interval */
+/** Repost of a post */
+export interface PostRepost {
+  repostUri: Key<string>; // AT URI of the repost record
+  subjectUri: string; // AT URI of the reposted post
+  actorDid: string; // DID of the account that reposted
+  createdAt: DateTime; // Repost timestamp
+}
+
+/** A like or repost, delivered once per record */
+export interface EngagementEvent {
+  subjectUri: Key<string>; // AT URI of the post engaged with
+  kind: string & LowCardinality; // "like" or "repost"
+  actorDid: string; // DID of the account engaging
+  createdAt: DateTime; // Engagement timestamp
+}
+
+/** Word occurrences in one post, stamped with its 10-second interval */
 export interface WordOccurrence {
   intervalTimestamp: Key<DateTime>; // Truncated to 10-second interval
-  word: string; // Lowercase normalized word
+  word: string; // Lowercase normalized word, as written
+  stem: string; // Canonical form grouping inflections; the word itself unless STEM_WORDS is on
+  count: number & tags.Type<"int64">; // Occurrences count
+  postId: string; // Post the words came from, for joining engagement
+  authorDid: string; // Author of the post, for counting distinct authors
+  postType: string & LowCardinality; // original, reply or quote
+  lang: string & LowCardinality; // Primary language subtag (e.g. "ja"): declared, else detected, else "unknown"
+  detectedLang: string & LowCardinality; // Language detected from the text, "unknown" if unsure
+  langConfidence: Float32; // Confidence of detectedLang, 0 to 1
+  sentiment?: Float32; // Sentiment of the post the word appeared in, as on PostSentiment; null unless the post is English
+}
+
+/** Phrases of two or three words in one post, stamped with its 10-second interval */
+export interface PhraseOccurrence {
+  intervalTimestamp: Key<DateTime>; // Truncated to 10-second interval
+  phrase: string; // Lowercase words joined by single spaces
+  size: UInt8; // Number of words, 2 or 3
+  count: number & tags.Type<"int64">; // Occurrences count
+  postId: string; // Post the phrase came from
+  authorDid: string; // Author of the post, for leaving out flagged accounts
+  postType: string & LowCardinality; // original, reply or quote
+  lang: string & LowCardinality; // Primary language subtag, as on WordOccurrence
+}
+
+/** Hashtags used in one post, stamped with its 10-second interval */
+export interface HashtagOccurrence {
+  intervalTimestamp: Key<DateTime>; // Truncated to 10-second interval
+  hashtag: string; // Lowercase tag without the leading "#"
+  count: number & tags.Type<"int64">; // Occurrences count
+  postId: string; // Post the hashtag came from
+  authorDid: string; // Author of the post, for leaving out flagged accounts
+  postType: string & LowCardinality; // original, reply or quote
+  lang: string & LowCardinality; // Primary language subtag, as on WordOccurrence
+}
+
+/** Accounts mentioned in one post, stamped with its 10-second interval */
+export interface MentionOccurrence {
+  intervalTimestamp: Key<DateTime>; // Truncated to 10-second interval
+  did: string; // DID of the mentioned account
+  count: number & tags.Type<"int64">; // Occurrences count
+  postId: string; // Post the mention came from
+  authorDid: string; // Author of the post, for leaving out flagged accounts
+  postType: string & LowCardinality; // original, reply or quote
+  lang: string & LowCardinality; // Primary language subtag, as on WordOccurrence
+}
+
+/** Domains linked from one post, stamped with its 10-second interval */
+export interface LinkOccurrence {
+  intervalTimestamp: Key<DateTime>; // Truncated to 10-second interval
+  domain: string; // Lowercase host name without a leading "www."
+  count: number & tags.Type<"int64">; // Distinct links to the domain
+  postId: string; // Post the links came from
+  authorDid: string; // Author of the post, for leaving out flagged accounts
+  postType: string & LowCardinality; // original, reply or quote
+  lang: string & LowCardinality; // Primary language subtag, as on WordOccurrence
+}
+
+/** Emoji used in one post, stamped with its 10-second interval */
+export interface EmojiOccurrence {
+  intervalTimestamp: Key<DateTime>; // Truncated to 10-second interval
+  emoji: string; // One grapheme, including ZWJ sequences, skin tones and flags
+  count: number & tags.Type<"int64">; // Occurrences count
+  postId: string; // Post the emoji came from
+  authorDid: string; // Author of the post, for leaving out flagged accounts
+  postType: string & LowCardinality; // original, reply or quote
+  lang: string & LowCardinality; // Primary language subtag, as on WordOccurrence
+}
+
+/** Named-entity candidates in one post, stamped with its 10-second interval */
+export interface EntityOccurrence {
+  intervalTimestamp: Key<DateTime>; // Truncated to 10-second interval
+  entity: string; // Name as written, e.g. "New York"; case is kept
+  type: string & LowCardinality; // person, organization or place from the gazetteer, else candidate
   count: number & tags.Type<"int64">; // Occurrences count
+  postId: string; // Post the entity came from
+  authorDid: string; // Author of the post, for leaving out flagged accounts
+  postType: string & LowCardinality; // original, reply or quote
+  lang: string & LowCardinality; // Primary language subtag, as on WordOccurrence
 }
 
-/** Pipeline for raw Bluesky posts - persisted in ClickHouse */
+/** Bot and spam score of an account, refreshed by the account-flags workflow */
+export interface AccountFlag {
+  authorDid: Key<string>; // Account scored
+  score: Float32; // 0 (human-like) to 1 (bot-like)
+  flagged: UInt8; // 1 when the score is at or above the flag threshold
+  override: string & LowCardinality; // "none", or "flag" / "clear" set by an admin
+  excluded: UInt8; // 1 when the account's posts are left out of trends
+  reasons: string[]; // Signals that contributed: "rate", "duplicates", "links"
+  posts: UInt32; // Posts in the scoring window
+  peakPostsPerMinute: UInt32; // Most posts in any one minute of the window
+  duplicateShare: Float32; // Share of posts repeating the text of another
+  linkOnlyShare: Float32; // Share of posts that are nothing but a link
+  scoredAt: DateTime; // When the scores were computed
+  version: UInt64; // Change time in milliseconds; the newest row per account wins
+}
+
+/**
+ * Sentiment of a post, scored from its text by the sentiment transform; the
+ * lexicon is English, so only posts whose primary language is English have one
+ */
+export interface PostSentiment {
+  postId: Key<string>; // AT URI of the post, as on BlueskyPost
+  createdAt: DateTime; // Post timestamp
+  sentiment: Float32; // Compound sentiment of the text, -1 (negative) to 1 (positive)
+}
+
+/** Word excluded from trends, managed through the trends API */
+export interface StopWord {
+  lang: string & LowCardinality; // Language subtag, or "all" for every language
+  word: string; // Lowercase word, as produced by the tokenizer
+  version: UInt64; // Change time in milliseconds; the newest row per word wins
+  removed: UInt8; // 1 when the word was taken off the list
+}
+
+// Alphabet of record keys that are TIDs, in value order (see recordKeyTime)
+const TID_ALPHABET = "234567abcdefghijklmnopqrstuvwxyz";
+
+/**
+ * ClickHouse expression for the UTC day, e.g. 20250101, of the TID in a post's
+ * record key, or 19700101 when the key is not a TID. It depends on postId
+ * alone, so a post, its resent copies and its tombstone share a partition.
+ */
+const RECORD_KEY_DAY = (() => {
+  const rkey = "arrayElement(splitByChar('/', postId), -1)";
+  const digits = Array.from(
+    { length: 13 },
+    (_, i) =>
+      `bitShiftLeft(toUInt64(position('${TID_ALPHABET}', substring(${rkey}, ${i + 1}, 1)) - 1), ${5 * (12 - i)})`,
+  );
+  const micros = `bitShiftRight(${digits.join(" + ")}, 10)`;
+  return `toYYYYMMDD(toDateTime(if(match(${rkey}, '^[234567a-j][234567a-z]{12}$'), intDiv(${micros}, 1000000), 0), 'UTC'))`;
+})();
+
+/**
+ * Pipeline for raw Bluesky posts - persisted in ClickHouse
+ * Replays after a reconnect resend posts, so rows are deduplicated by postId.
+ * Tombstones carry a newer version and `deleted = 1`, so deleted posts drop
+ * out of FINAL queries and are removed when parts merge.
+ * ReplacingMergeTree only replaces rows within a partition, so daily
+ * partitions follow the record key rather than createdAt, which differs
+ * between a post (event time) and its tombstone (deletion time). A minmax
+ * index on createdAt still lets time-range queries skip old parts.
+ */
 export const BlueskyPostPipeline = new IngestPipeline<BlueskyPost>(
   "BlueskyPost",
   {
     table: {
-      orderByFields: ["createdAt"], // Time-series ordering
+      engine: ClickHouseEngines.ReplacingMergeTree,
+      orderByFields: ["postId"],
+      partitionBy: RECORD_KEY_DAY,
+      indexes: [
+        { name: "createdAt_minmax", expression: "createdAt", type: "minmax", granularity: 1 },
+      ],
+      ver: "version",
+      isDeleted: "deleted",
     },
     stream: true, // Stream for transformation
     ingestApi: true, // POST /ingest/BlueskyPost
   },
 );
 
+/** Pipeline for post deletions - the tombstone stream */
+export const PostDeletionPipeline = new IngestPipeline<PostDeletion>(
+  "PostDeletion",
+  {
+    table: {
+      engine: ClickHouseEngines.ReplacingMergeTree,
+      orderByFields: ["postId"],
+    },
+    stream: true,
+    ingestApi: true, // POST /ingest/PostDeletion
+  },
+);
+
+/** Pipeline for likes - deduplicated by the like record's URI */
+export const PostLikePipeline = new IngestPipeline<PostLike>("PostLike", {
+  table: {
+    engine: ClickHouseEngines.ReplacingMergeTree,
+    orderByFields: ["likeUri"],
+  },
+  stream: true,
+  ingestApi: true, // POST /ingest/PostLike
+});
+
+/** Pipeline for reposts - deduplicated by the repost record's URI */
+export const PostRepostPipeline = new IngestPipeline<PostRepost>("PostRepost", {
+  table: {
+    engine: ClickHouseEngines.ReplacingMergeTree,
+    orderByFields: ["repostUri"],
+  },
+  stream: true,
+  ingestApi: true, // POST /ingest/PostRepost
+});
+
+/**
+ * Pipeline for likes and reposts after deduplication
+ * Materialized views count inserts, so they read this table rather than the
+ * raw like and repost tables, which only collapse duplicates when merging
+ */
+export const EngagementEventPipeline = new IngestPipeline<EngagementEvent>(
+  "EngagementEvent",
+  {
+    table: {
+      orderByFields: ["subjectUri", "createdAt"],
+    },
+    stream: true,
+    ingestApi: false, // Only populated via transform
+  },
+);
+
+/**
+ * Pipeline for post sentiment - deduplicated by postId like BlueskyPost, so
+ * replayed posts keep one score
+ */
+export const PostSentimentPipeline = new IngestPipeline<PostSentiment>(
+  "PostSentiment",
+  {
+    table: {
+      engine: ClickHouseEngines.ReplacingMergeTree,
+      orderByFields: ["postId"],
+    },
+    stream: true,
+    ingestApi: false, // Only populated via transform
+  },
+);
+
 /** Pipeline for word occurrences - persisted in ClickHouse */
 export const WordOccurrencePipeline = new IngestPipeline<WordOccurrence>(
   "WordOccurrence",
@@ -45,3 +332,95 @@ export const WordOccurrencePipeline = new IngestPipeline<WordOccurrence>(
     ingestApi: false, // Only populated via transform
   },
 );
+
+/** Pipeline for phrase occurrences - persisted in ClickHouse */
+export const PhraseOccurrencePipeline = new IngestPipeline<PhraseOccurrence>(
+  "PhraseOccurrence",
+  {
+    table: {
+      orderByFields: ["intervalTimestamp", "phrase"],
+    },
+    stream: true,
+    ingestApi: false, // Only populated via transform
+  },
+);
+
+/** Pipeline for hashtag occurrences - persisted in ClickHouse */
+export const HashtagOccurrencePipeline = new IngestPipeline<HashtagOccurrence>(
+  "HashtagOccurrence",
+  {
+    table: {
+      orderByFields: ["intervalTimestamp", "hashtag"],
+    },
+    stream: true,
+    ingestApi: false, // Only populated via transform
+  },
+);
+
+/** Pipeline for mention occurrences - persisted in ClickHouse */
+export const MentionOccurrencePipeline = new IngestPipeline<MentionOccurrence>(
+  "MentionOccurrence",
+  {
+    table: {
+      orderByFields: ["intervalTimestamp", "did"],
+    },
+    stream: true,
+    ingestApi: false, // Only populated via transform
+  },
+);
+
+/** Pipeline for link occurrences - persisted in ClickHouse */
+export const LinkOccurrencePipeline = new IngestPipeline<LinkOccurrence>(
+  "LinkOccurrence",
+  {
+    table: {
+      orderByFields: ["intervalTimestamp", "domain"],
+    },
+    stream: true,
+    ingestApi: false, // Only populated via transform
+  },
+);
+
+/** Pipeline for emoji occurrences - persisted in ClickHouse */
+export const EmojiOccurrencePipeline = new IngestPipeline<EmojiOccurrence>(
+  "EmojiOccurrence",
+  {
+    table: {
+      orderByFields: ["intervalTimestamp", "emoji"],
+    },
+    stream: true,
+    ingestApi: false, // Only populated via transform
+  },
+);
+
+/** Pipeline for entity occurrences - persisted in ClickHouse */
+export const EntityOccurrencePipeline = new IngestPipeline<EntityOccurrence>(
+  "EntityOccurrence",
+  {
+    table: {
+      orderByFields: ["intervalTimestamp", "entity"],
+    },
+    stream: true,
+    ingestApi: false, // Only populated via transform
+  },
+);
+
+/**
+ * Stop words per language - the newest change per (lang, word) wins, and
+ * removed words drop out of FINAL queries
+ */
+export const StopWordTable = new OlapTable<StopWord>("StopWord", {
+  engine: ClickHouseEngines.ReplacingMergeTree,
+  orderByFields: ["lang", "word"],
+  ver: "version",
+  isDeleted: "removed",
+});
+
+/**
+ * Account flags - the newest score or override per account wins
+ */
+export const AccountFlagTable = new OlapTable<AccountFlag>("AccountFlag", {
+  engine: ClickHouseEngines.ReplacingMergeTree,
+  orderByFields: ["authorDid"],
+  ver: "version",
+});
@@ -0,0 +1,364 @@
+/**
+ * Offline, lexicon-based sentiment scoring in the style of VADER
+ *
+ * Words and emoticons carry a valence from -4 (very negative) to 4 (very
+ * positive). The valence is scaled by intensifiers ("very"), flipped by a
+ * nearby negation ("not good"), stressed by ALL CAPS and exclamation marks,
+ * and weighted towards the clause after "but". The sum is squashed into a
+ * compound score from -1 to 1. The lexicon is English; text without any of
+ * its words scores 0 (neutral).
+ */
+
+/**
+ * Valence of English words, emoticons and emoji
+ */
+const LEXICON: Record<string, number> = {
+  // Positive
+  love: 3.2,
+  loved: 2.9,
+  loves: 2.7,
+  loving: 2.9,
+  lovely: 2.8,
+  adore: 2.6,
+  amazing: 2.8,
+  awesome: 3.1,
+  excellent: 3.2,
+  fantastic: 2.6,
+  wonderful: 2.7,
+  brilliant: 2.8,
+  perfect: 2.7,
+  beautiful: 2.9,
+  gorgeous: 3.0,
+  great: 3.1,
+  good: 1.9,
+  nice: 1.8,
+  fine: 0.8,
+  cool: 1.3,
+  best: 3.2,
+  better: 1.9,
+  happy: 2.7,
+  happier: 2.4,
+  glad: 2.0,
+  joy: 2.8,
+  fun: 2.3,
+  funny: 1.9,
+  enjoy: 2.2,
+  enjoyed: 2.3,
+  excited: 1.4,
+  exciting: 2.2,
+  thrilled: 1.9,
+  proud: 2.1,
+  grateful: 2.0,
+  thanks: 1.9,
+  thank: 1.5,
+  congrats: 2.4,
+  congratulations: 2.9,
+  win: 2.8,
+  won: 2.7,
+  winning: 2.4,
+  victory: 2.8,
+  success: 2.7,
+  celebrate: 2.7,
+  hope: 1.9,
+  hopeful: 2.3,
+  kind: 2.4,
+  sweet: 2.0,
+  cute: 2.0,
+  safe: 1.9,
+  peace: 2.5,
+  free: 2.3,
+  support: 1.7,
+  agree: 1.5,
+  yes: 1.7,
+  yay: 2.4,
+  lol: 1.8,
+  lmao: 2.0,
+  haha: 2.0,
+  wow: 2.3,
+  like: 1.5,
+  liked: 1.8,
+  interesting: 1.7,
+  helpful: 1.8,
+  recommend: 1.5,
+  incredible: 2.0,
+  impressive: 2.5,
+  favorite: 2.0,
+  hero: 2.6,
+  smile: 1.5,
+  laugh: 2.6,
+  // Negative
+  hate: -2.7,
+  hated: -3.2,
+  hates: -1.9,
+  awful: -2.0,
+  terrible: -2.1,
+  horrible: -2.5,
+  horrific: -3.4,
+  disgusting: -2.4,
+  worst: -3.1,
+  worse: -2.1,
+  bad: -2.5,
+  poor: -2.1,
+  sad: -2.1,
+  unhappy: -1.8,
+  angry: -2.3,
+  furious: -2.7,
+  mad: -2.2,
+  annoying: -1.7,
+  annoyed: -1.6,
+  upset: -1.6,
+  disappointed: -1.9,
+  disappointing: -2.2,
+  fail: -2.5,
+  failed: -2.3,
+  failure: -2.3,
+  lose: -1.7,
+  lost: -1.3,
+  loss: -1.3,
+  wrong: -2.1,
+  stupid: -2.4,
+  dumb: -2.3,
+  idiot: -2.3,
+  ugly: -2.3,
+  boring: -1.3,
+  pain: -2.3,
+  hurt: -2.4,
+  sick: -2.1,
+  tired: -1.9,
+  afraid: -2.2,
+  scared: -1.9,
+  fear: -2.2,
+  worried: -1.2,
+  worry: -1.9,
+  crisis: -3.1,
+  disaster: -3.1,
+  tragic: -3.4,
+  tragedy: -3.4,
+  death: -2.9,
+  dead: -3.3,
+  die: -2.9,
+  died: -2.6,
+  kill: -3.7,
+  killed: -3.5,
+  killing: -3.4,
+  war: -2.9,
+  attack: -2.1,
+  violence: -3.1,
+  abuse: -3.2,
+  corrupt: -3.0,
+  corruption: -2.9,
+  lie: -1.6,
+  lies: -1.8,
+  liar: -3.1,
+  fraud: -2.8,
+  scam: -2.7,
+  cruel: -2.8,
+  evil: -3.4,
+  shame: -2.1,
+  shameful: -2.2,
+  outrage: -2.3,
+  outrageous: -2.0,
+  racist: -3.1,
+  fascist: -2.7,
+  crap: -1.6,
+  sucks: -1.5,
+  damn: -1.7,
+  ugh: -1.8,
+  no: -1.2,
+  cry: -2.1,
+  crying: -2.1,
+  problem: -1.7,
+  broken: -2.1,
+  threat: -2.4,
+  danger: -2.4,
+  dangerous: -2.1,
+  // Emoticons
+  ":)": 2.0,
+  ":-)": 1.3,
+  ":D": 2.3,
+  ";)": 0.9,
+  "<3": 1.9,
+  ":(": -1.9,
+  ":-(": -1.5,
+  ":'(": -2.2,
+  // Emoji
+  "😂": 1.9,
+  "🤣": 2.0,
+  "😊": 2.6,
+  "😍": 2.9,
+  "🥰": 2.8,
+  "❤️": 2.7,
+  "❤": 2.7,
+  "🎉": 2.6,
+  "👍": 1.9,
+  "🙏": 1.3,
+  "🔥": 1.4,
+  "😢": -1.9,
+  "😭": -1.7,
+  "😡": -2.8,
+  "🤬": -3.0,
+  "😠": -2.4,
+  "💔": -2.6,
+  "👎": -1.9,
+  "🤮": -2.6,
+};
+
+const VALENCES = new Map(Object.entries(LEXICON));
+
+// Words that scale the valence of the word after them
+const INTENSIFIER = 0.293;
+const BOOSTERS = new Map(Object.entries({
+  absolutely: INTENSIFIER,
+  completely: INTENSIFIER,
+  extremely: INTENSIFIER,
+  incredibly: INTENSIFIER,
+  really: INTENSIFIER,
+  so: INTENSIFIER,
+  super: INTENSIFIER,
+  totally: INTENSIFIER,
+  very: INTENSIFIER,
+  most: INTENSIFIER,
+  barely: -INTENSIFIER,
+  hardly: -INTENSIFIER,
+  slightly: -INTENSIFIER,
+  somewhat: -INTENSIFIER,
+  kinda: -INTENSIFIER,
+  sorta: -INTENSIFIER,
+}));
+
+const NEGATIONS = new Set([
+  "not",
+  "never",
+  "nothing",
+  "nobody",
+  "none",
+  "neither",
+  "nor",
+  "without",
+  "cannot",
+  "aint",
+  "isnt",
+  "wasnt",
+  "dont",
+  "doesnt",
+  "didnt",
+  "cant",
+  "wont",
+  "couldnt",
+  "shouldnt",
+  "wouldnt",
+]);
+
+// Negated words keep a weakened, opposite valence
+const NEGATION_SCALAR = -0.74;
+
+// How many words before a sentiment word a negation or booster applies from
+const SCOPE = 3;
+
+// Extra valence for a sentiment word in ALL CAPS within mixed-case text
+const CAPS_EMPHASIS = 0.733;
+
+// Extra valence per exclamation mark, up to MAX_EXCLAMATIONS
+const EXCLAMATION_EMPHASIS = 0.292;
+const MAX_EXCLAMATIONS = 4;
+
+// Squashes the summed valence into -1 to 1; about the largest sum expected
+const NORMALIZATION_ALPHA = 15;
+
+interface Token {
+  raw: string; // As written, without surrounding punctuation
+  lower: string; // Lowercase, with apostrophes removed
+}
+
+/**
+ * Split text into tokens; emoticons and emoji are kept as written
+ */
+function tokensOf(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const part of text.split(/\s+/)) {
+    if (VALENCES.has(part)) {
+      tokens.push({ raw: part, lower: part });
+      continue;
+    }
+    const raw = part.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+    if (raw.length === 0) {
+      // Emoji written next to each other or to punctuation
+      for (const symbol of part.match(/\p{Extended_Pictographic}️?/gu) ?? []) {
+        tokens.push({ raw: symbol, lower: symbol });
+      }
+      continue;
+    }
+    tokens.push({ raw, lower: raw.toLowerCase().replace(/['’]/g, "") });
+  }
+  return tokens;
+}
+
+function isShouting(word: string): boolean {
+  return /\p{Lu}/u.test(word) && word === word.toUpperCase();
+}
+
+function isNegation(token: Token): boolean {
+  return NEGATIONS.has(token.lower) || /n['’]t$/i.test(token.raw);
+}
+
+/**
+ * Valence of the token at index i, adjusted for the words before it
+ */
+function valenceAt(tokens: Token[], i: number, mixedCase: boolean): number {
+  const { raw, lower } = tokens[i];
+  let valence = VALENCES.get(lower) ?? 0;
+  if (valence === 0) return 0;
+
+  const direction = Math.sign(valence);
+  if (mixedCase && isShouting(raw)) valence += direction * CAPS_EMPHASIS;
+
+  for (let distance = 1; distance <= SCOPE && i - distance >= 0; distance++) {
+    const before = tokens[i - distance];
+    const boost = BOOSTERS.get(before.lower);
+    if (boost !== undefined) {
+      // Boosters further away count less
+      const decay = 1 - 0.05 * (distance - 1);
+      let scaled = boost * decay;
+      if (mixedCase && isShouting(before.raw)) scaled += Math.sign(boost) * CAPS_EMPHASIS;
+      valence += direction * scaled;
+    }
+    if (isNegation(before)) {
+      valence *= NEGATION_SCALAR;
+      break;
+    }
+  }
+  return valence;
+}
+
+/**
+ * Compound sentiment of a post's text, from -1 (most negative) to 1 (most
+ * positive); 0 when the text has no sentiment words
+ */
+export function scoreSentiment(text: string): number {
+  const tokens = tokensOf(text);
+  const letters = text.replace(/[^\p{L}]/gu, "");
+  const mixedCase = letters !== letters.toUpperCase();
+
+  const valences = tokens.map((_, i) => valenceAt(tokens, i, mixedCase));
+
+  // The clause after "but" carries the speaker's point
+  const but = tokens.findIndex((token) => token.lower === "but");
+  if (but >= 0) {
+    for (let i = 0; i < valences.length; i++) {
+      if (i < but) valences[i] *= 0.5;
+      else if (i > but) valences[i] *= 1.5;
+    }
+  }
+
+  let sum = valences.reduce((total, valence) => total + valence, 0);
+  if (sum === 0) return 0;
+
+  const exclamations = Math.min(
+    MAX_EXCLAMATIONS,
+    text.match(/!/g)?.length ?? 0,
+  );
+  sum += Math.sign(sum) * exclamations * EXCLAMATION_EMPHASIS;
+
+  const compound = sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+  return Number(Math.max(-1, Math.min(1, compound)).toFixed(4));
+}
@@ -0,0 +1,437 @@
+/**
+ * Snowball stemmers for Spanish, Portuguese and German
+ *
+ * Each follows the published Snowball algorithm for its language: suffixes
+ * are only removed when they lie in the regions R1, R2 or (for Spanish and
+ * Portuguese) RV, which keeps short words and word roots intact. Regions are
+ * computed once on the word before any suffix is removed.
+ */
+
+interface Regions {
+  r1: number;
+  r2: number;
+  rv: number;
+}
+
+/**
+ * R1 and R2 as Snowball defines them, and RV for the Romance languages
+ */
+function regionsOf(word: string, vowels: string): Regions {
+  const isVowel = (i: number) => vowels.includes(word[i]);
+  const regionAfter = (start: number) => {
+    for (let i = start + 1; i < word.length; i++) {
+      if (!isVowel(i) && isVowel(i - 1)) return i + 1;
+    }
+    return word.length;
+  };
+
+  const r1 = regionAfter(0);
+  const r2 = regionAfter(r1);
+
+  // RV: after the next vowel if the second letter is a consonant, after the
+  // next consonant if the first two letters are vowels, otherwise after the
+  // third letter
+  let rv = word.length;
+  if (word.length >= 2) {
+    if (!isVowel(1)) {
+      for (let i = 2; i < word.length; i++) {
+        if (isVowel(i)) {
+          rv = i + 1;
+          break;
+        }
+      }
+    } else if (isVowel(0)) {
+      for (let i = 2; i < word.length; i++) {
+        if (!isVowel(i)) {
+          rv = i + 1;
+          break;
+        }
+      }
+    } else {
+      rv = Math.min(3, word.length);
+    }
+  }
+  return { r1, r2, rv };
+}
+
+/**
+ * Longest of the suffixes that the word ends with and that starts at or after
+ * `from`
+ */
+function longestSuffix(
+  word: string,
+  suffixes: string[],
+  from = 0,
+): string | undefined {
+  let longest: string | undefined;
+  for (const suffix of suffixes) {
+    if (
+      word.endsWith(suffix) &&
+      word.length - suffix.length >= from &&
+      suffix.length > (longest?.length ?? -1)
+    ) {
+      longest = suffix;
+    }
+  }
+  return longest;
+}
+
+/**
+ * Remove the suffix if the word ends with it at or after `from`; null if it
+ * does not
+ */
+function removeSuffix(word: string, suffix: string, from: number): string | null {
+  return word.endsWith(suffix) && word.length - suffix.length >= from
+    ? word.slice(0, word.length - suffix.length)
+    : null;
+}
+
+/** Spellings of the step 1 suffixes of Spanish or Portuguese */
+interface RomanceStandardSuffixes {
+  /** Deleted in R2 */
+  plain: string[];
+  /** Deleted in R2, then "ic" before them too */
+  icPreceded: string[];
+  /** Replaced by "log" in R2 */
+  logia: string[];
+  /** Replaced by "u" in R2 */
+  ucion: string[];
+  /** Replaced by "ente" in R2 */
+  encia: string[];
+  /** Deleted in R2 after "mente" */
+  beforeMente: string[];
+  /** Deleted in R2, then "abil", "ic" or "iv" before them too */
+  idad: string[];
+}
+
+/**
+ * Step 1 of Spanish and Portuguese: noun and adjective suffixes, which share
+ * their rules apart from a few spellings. Returns null when nothing is removed.
+ */
+function romanceStandardSuffix(
+  word: string,
+  { r1, r2 }: Regions,
+  suffixes: RomanceStandardSuffixes,
+): string | null {
+  const groups = [
+    suffixes.plain,
+    suffixes.icPreceded,
+    suffixes.logia,
+    suffixes.ucion,
+    suffixes.encia,
+    ["amente", "mente"],
+    suffixes.idad,
+    ["iva", "ivo", "ivas", "ivos"],
+  ];
+  const suffix = longestSuffix(word, groups.flat());
+  if (!suffix) return null;
+  const base = removeSuffix(word, suffix, suffix === "amente" ? r1 : r2);
+  if (base === null) return null;
+
+  if (suffixes.plain.includes(suffix)) return base;
+  if (suffixes.icPreceded.includes(suffix)) return removeSuffix(base, "ic", r2) ?? base;
+  if (suffixes.logia.includes(suffix)) return base + "log";
+  if (suffixes.ucion.includes(suffix)) return base + "u";
+  if (suffixes.encia.includes(suffix)) return base + "ente";
+
+  if (suffix === "amente") {
+    const before = longestSuffix(base, ["iv", "os", "ic", "ad"]);
+    const stripped = before ? removeSuffix(base, before, r2) : null;
+    if (stripped === null) return base;
+    return before === "iv" ? (removeSuffix(stripped, "at", r2) ?? stripped) : stripped;
+  }
+  if (suffix === "mente") {
+    const before = longestSuffix(base, suffixes.beforeMente);
+    return (before && removeSuffix(base, before, r2)) ?? base;
+  }
+  if (suffixes.idad.includes(suffix)) {
+    const before = longestSuffix(base, ["abil", "ic", "iv"]);
+    return (before && removeSuffix(base, before, r2)) ?? base;
+  }
+  // iva, ivo, ivas, ivos
+  return removeSuffix(base, "at", r2) ?? base;
+}
+
+const SPANISH_VOWELS = "aeiouáéíóúü";
+
+const SPANISH_PRONOUNS = [
+  "me", "se", "sela", "selo", "selas", "selos", "la", "le", "lo", "las", "les", "los", "nos",
+];
+
+// Verb endings an attached pronoun can follow, as in "haciéndola"
+const SPANISH_PRONOUN_HOSTS = [
+  "iéndo", "ándo", "ár", "ér", "ír", "ando", "iendo", "ar", "er", "ir", "yendo",
+];
+
+const SPANISH_STANDARD: RomanceStandardSuffixes = {
+  plain: [
+    "anza", "anzas", "ico", "ica", "icos", "icas", "ismo", "ismos", "able", "ables",
+    "ible", "ibles", "ista", "istas", "oso", "osa", "osos", "osas", "amiento",
+    "amientos", "imiento", "imientos",
+  ],
+  icPreceded: [
+    "adora", "ador", "ación", "adoras", "adores", "aciones", "ante", "antes", "ancia",
+    "ancias",
+  ],
+  logia: ["logía", "logías"],
+  ucion: ["ución", "uciones"],
+  encia: ["encia", "encias"],
+  beforeMente: ["ante", "able", "ible"],
+  idad: ["idad", "idades"],
+};
+
+// Verb forms starting with y, removed after a u
+const SPANISH_Y_VERB_SUFFIXES = [
+  "ya", "ye", "yan", "yen", "yeron", "yendo", "yo", "yó", "yas", "yes", "yais", "yamos",
+];
+
+// Verb suffixes after which a "gu" loses its u
+const SPANISH_GU_VERB_SUFFIXES = ["en", "es", "éis", "emos"];
+
+const SPANISH_VERB_SUFFIXES = [
+  "arían", "arías", "arán", "arás", "aríais", "aría", "aréis", "aríamos", "aremos",
+  "ará", "aré", "erían", "erías", "erán", "erás", "eríais", "ería", "eréis", "eríamos",
+  "eremos", "erá", "eré", "irían", "irías", "irán", "irás", "iríais", "iría", "iréis",
+  "iríamos", "iremos", "irá", "iré", "aba", "ada", "ida", "ía", "ara", "iera", "ad",
+  "ed", "id", "ase", "iese", "aste", "iste", "an", "aban", "ían", "aran", "ieran",
+  "asen", "iesen", "aron", "ieron", "ado", "ido", "ando", "iendo", "ió", "ar", "er",
+  "ir", "as", "abas", "adas", "idas", "ías", "aras", "ieras", "ases", "ieses", "ís",
+  "áis", "abais", "íais", "arais", "ierais", "aseis", "ieseis", "asteis", "isteis",
+  "ados", "idos", "amos", "ábamos", "íamos", "imos", "áramos", "iéramos", "iésemos",
+  "ásemos",
+];
+
+function removeAcutes(word: string): string {
+  return word
+    .replace(/á/g, "a")
+    .replace(/é/g, "e")
+    .replace(/í/g, "i")
+    .replace(/ó/g, "o")
+    .replace(/ú/g, "u");
+}
+
+/**
+ * Snowball Spanish stemmer
+ */
+export function stemSpanish(input: string): string {
+  let word = input;
+  const regions = regionsOf(word, SPANISH_VOWELS);
+  const { rv } = regions;
+
+  // Step 0: attached pronouns
+  const pronoun = longestSuffix(word, SPANISH_PRONOUNS);
+  if (pronoun) {
+    const host = word.slice(0, word.length - pronoun.length);
+    const ending = longestSuffix(host, SPANISH_PRONOUN_HOSTS);
+    if (
+      ending &&
+      host.length - ending.length >= rv &&
+      (ending !== "yendo" || host.endsWith("uyendo"))
+    ) {
+      word = host.slice(0, host.length - ending.length) + removeAcutes(ending);
+    }
+  }
+
+  // Step 1: standard suffixes; steps 2a and 2b only run if it removes none
+  const standard = romanceStandardSuffix(word, regions, SPANISH_STANDARD);
+  if (standard !== null) {
+    word = standard;
+  } else {
+    // Step 2a: verb suffixes beginning with y, after a u
+    const ySuffix = longestSuffix(word, SPANISH_Y_VERB_SUFFIXES, rv);
+    if (ySuffix && word.slice(0, word.length - ySuffix.length).endsWith("u")) {
+      word = word.slice(0, word.length - ySuffix.length);
+    } else {
+      // Step 2b: other verb suffixes
+      const verbSuffix = longestSuffix(
+        word,
+        [...SPANISH_GU_VERB_SUFFIXES, ...SPANISH_VERB_SUFFIXES],
+        rv,
+      );
+      if (verbSuffix) {
+        word = word.slice(0, word.length - verbSuffix.length);
+        if (SPANISH_GU_VERB_SUFFIXES.includes(verbSuffix) && word.endsWith("gu")) {
+          word = word.slice(0, -1);
+        }
+      }
+    }
+  }
+
+  // Step 3: residual suffixes
+  const residual = longestSuffix(word, ["os", "a", "o", "á", "í", "ó", "e", "é"]);
+  const base = residual ? removeSuffix(word, residual, rv) : null;
+  if (base !== null) {
+    word = base;
+    if ((residual === "e" || residual === "é") && word.endsWith("gu")) {
+      word = removeSuffix(word, "u", rv) ?? word;
+    }
+  }
+
+  return removeAcutes(word);
+}
+
+const PORTUGUESE_VOWELS = "aeiouáéíóúâêô";
+
+// Nasal vowels are written as a vowel and "~" while stemming, as Snowball does
+const PORTUGUESE_STANDARD: RomanceStandardSuffixes = {
+  plain: [
+    "eza", "ezas", "ico", "ica", "icos", "icas", "ismo", "ismos", "ável", "ível",
+    "ista", "istas", "oso", "osa", "osos", "osas", "amento", "amentos", "imento",
+    "imentos", "adora", "ador", "aça~o", "adoras", "adores", "aço~es", "ante", "antes",
+    "ância",
+  ],
+  icPreceded: [],
+  logia: ["logia", "logias"],
+  ucion: ["uça~o", "uço~es"],
+  encia: ["ência", "ências"],
+  beforeMente: ["ante", "avel", "ível"],
+  idad: ["idade", "idades"],
+};
+
+const PORTUGUESE_VERB_SUFFIXES = [
+  "ada", "ida", "ia", "aria", "eria", "iria", "ará", "ara", "erá", "era", "irá", "ava",
+  "asse", "esse", "isse", "aste", "este", "iste", "ei", "arei", "erei", "irei", "am",
+  "iam", "ariam", "eriam", "iriam", "aram", "eram", "iram", "avam", "em", "arem",
+  "erem", "irem", "assem", "essem", "issem", "ado", "ido", "ando", "endo", "indo",
+  "ara~o", "era~o", "ira~o", "ar", "er", "ir", "as", "adas", "idas", "ias", "arias",
+  "erias", "irias", "arás", "aras", "erás", "eras", "irás", "avas", "es", "ardes",
+  "erdes", "irdes", "ares", "eres", "ires", "asses", "esses", "isses", "astes",
+  "estes", "istes", "is", "ais", "eis", "íeis", "aríeis", "eríeis", "iríeis", "áreis",
+  "areis", "éreis", "ereis", "íreis", "ireis", "ásseis", "ésseis", "ísseis", "áveis",
+  "ados", "idos", "ámos", "amos", "íamos", "aríamos", "eríamos", "iríamos", "áramos",
+  "éramos", "íramos", "ávamos", "emos", "aremos", "eremos", "iremos", "ássemos",
+  "êssemos", "íssemos", "imos", "armos", "ermos", "irmos", "eu", "iu", "ou", "ira",
+  "iras",
+];
+
+/**
+ * Snowball Portuguese stemmer
+ */
+export function stemPortuguese(input: string): string {
+  let word = input.replace(/ã/g, "a~").replace(/õ/g, "o~");
+  const regions = regionsOf(word, PORTUGUESE_VOWELS);
+  const { rv } = regions;
+
+  // Step 1: standard suffixes, with "-eira" kept as "-eir"
+  let changed: string | null = romanceStandardSuffix(word, regions, PORTUGUESE_STANDARD);
+  if (changed === null) {
+    // No other step 1 suffix ends in "ira", so this is still the longest match
+    const ira = longestSuffix(word, ["ira", "iras"]);
+    if (ira) {
+      const base = removeSuffix(word, ira, rv);
+      if (base !== null && base.endsWith("e")) changed = base + "ir";
+    }
+  }
+
+  // Step 2: verb suffixes, if step 1 changed nothing
+  if (changed === null) {
+    const verbSuffix = longestSuffix(word, PORTUGUESE_VERB_SUFFIXES, rv);
+    if (verbSuffix) changed = word.slice(0, word.length - verbSuffix.length);
+  }
+
+  if (changed !== null) {
+    word = changed;
+    // Step 3: "i" after "c"
+    if (word.endsWith("ci")) word = removeSuffix(word, "i", rv) ?? word;
+  } else {
+    // Step 4: residual suffixes
+    const residual = longestSuffix(word, ["os", "a", "i", "o", "á", "í", "ó"]);
+    if (residual) word = removeSuffix(word, residual, rv) ?? word;
+  }
+
+  // Step 5: residual forms
+  const finalE = longestSuffix(word, ["e", "é", "ê"]);
+  const base = finalE ? removeSuffix(word, finalE, rv) : null;
+  if (base !== null) {
+    word = base;
+    if (word.endsWith("gu") || word.endsWith("ci")) {
+      word = removeSuffix(word, word.slice(-1), rv) ?? word;
+    }
+  } else if (word.endsWith("ç")) {
+    word = word.slice(0, -1) + "c";
+  }
+
+  return word.replace(/a~/g, "ã").replace(/o~/g, "õ");
+}
+
+const GERMAN_VOWELS = "aeiouyäöü";
+
+// Letters a plural or genitive "s" can follow
+const GERMAN_S_ENDINGS = "bdfghklmnrt";
+
+// Letters a verb "st" can follow
+const GERMAN_ST_ENDINGS = "bdfghklmnt";
+
+/**
+ * Snowball German stemmer
+ */
+export function stemGerman(input: string): string {
+  // u and y between vowels act as consonants, marked U and Y
+  let word = input
+    .replace(/ß/g, "ss")
+    .replace(/([aeiouyäöü])u(?=[aeiouyäöü])/g, "$1U")
+    .replace(/([aeiouyäöü])y(?=[aeiouyäöü])/g, "$1Y");
+
+  const regions = regionsOf(word, GERMAN_VOWELS);
+  // R1 starts after at least three letters
+  const r1 = Math.max(regions.r1, 3);
+  const { r2 } = regions;
+
+  // Step 1: inflections
+  const step1 = longestSuffix(word, ["em", "ern", "er", "e", "en", "es", "s"]);
+  if (step1) {
+    const base = removeSuffix(word, step1, r1);
+    if (base !== null) {
+      if (step1 === "s") {
+        if (GERMAN_S_ENDINGS.includes(base.slice(-1))) word = base;
+      } else {
+        word = base;
+        if (["e", "en", "es"].includes(step1) && word.endsWith("niss")) {
+          word = word.slice(0, -1);
+        }
+      }
+    }
+  }
+
+  // Step 2: verb and adjective endings
+  const step2 = longestSuffix(word, ["en", "er", "est", "st"]);
+  if (step2) {
+    const base = removeSuffix(word, step2, r1);
+    if (base !== null) {
+      if (step2 !== "st") {
+        word = base;
+      } else if (GERMAN_ST_ENDINGS.includes(base.slice(-1)) && base.length >= 4) {
+        word = base;
+      }
+    }
+  }
+
+  // Step 3: derivational suffixes
+  const step3 = longestSuffix(word, ["end", "ung", "ig", "ik", "isch", "lich", "heit", "keit"]);
+  const base = step3 ? removeSuffix(word, step3, r2) : null;
+  if (step3 && base !== null) {
+    if (step3 === "end" || step3 === "ung") {
+      word = base;
+      if (word.endsWith("ig") && !word.endsWith("eig")) {
+        word = removeSuffix(word, "ig", r2) ?? word;
+      }
+    } else if (step3 === "ig" || step3 === "ik" || step3 === "isch") {
+      if (!base.endsWith("e")) word = base;
+    } else if (step3 === "lich" || step3 === "heit") {
+      word = base;
+      const before = longestSuffix(word, ["er", "en"]);
+      if (before) word = removeSuffix(word, before, r1) ?? word;
+    } else {
+      word = base;
+      const before = longestSuffix(word, ["lich", "ig"]);
+      if (before) word = removeSuffix(word, before, r2) ?? word;
+    }
+  }
+
+  return word
+    .replace(/U/g, "u")
+    .replace(/Y/g, "y")
+    .replace(/ä/g, "a")
+    .replace(/ö/g, "o")
+    .replace(/ü/g, "u");
+}
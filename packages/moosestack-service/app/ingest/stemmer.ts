@@ -0,0 +1,251 @@
+/**
+ * Word stemming, so inflected forms ("votes", "voted", "voting") trend as one
+ *
+ * Stemmers are registered per language subtag. English uses the Snowball
+ * English (Porter2) algorithm, and Spanish, Portuguese and German their
+ * Snowball stemmers (see snowball.ts); languages without a stemmer keep their
+ * words as they are.
+ */
+
+import { stemGerman, stemPortuguese, stemSpanish } from "./snowball";
+
+/** Reduces a lowercase word to its stem */
+export type Stemmer = (word: string) => string;
+
+const VOWELS = "aeiouy";
+
+// Words the Porter2 algorithm maps by hand, or leaves alone
+const EXCEPTIONS: Record<string, string> = {
+  skis: "ski",
+  skies: "sky",
+  dying: "die",
+  lying: "lie",
+  tying: "tie",
+  idly: "idl",
+  gently: "gentl",
+  ugly: "ugli",
+  early: "earli",
+  only: "onli",
+  singly: "singl",
+  sky: "sky",
+  news: "news",
+  howe: "howe",
+  atlas: "atlas",
+  cosmos: "cosmos",
+  bias: "bias",
+  andes: "andes",
+};
+
+// Left alone after step 1a
+const EXCEPTIONS_AFTER_1A = new Set([
+  "inning",
+  "outing",
+  "canning",
+  "herring",
+  "earring",
+  "proceed",
+  "exceed",
+  "succeed",
+]);
+
+const DOUBLES = ["bb", "dd", "ff", "gg", "mm", "nn", "pp", "rr", "tt"];
+
+const LI_ENDINGS = "cdeghkmnrt";
+
+// Step 2 and 3 suffixes, longest first within each ending
+const STEP2: Array<[string, string]> = [
+  ["ization", "ize"],
+  ["ational", "ate"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["iveness", "ive"],
+  ["tional", "tion"],
+  ["biliti", "ble"],
+  ["lessli", "less"],
+  ["entli", "ent"],
+  ["ation", "ate"],
+  ["alism", "al"],
+  ["aliti", "al"],
+  ["ousli", "ous"],
+  ["iviti", "ive"],
+  ["fulli", "ful"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["abli", "able"],
+  ["izer", "ize"],
+  ["ator", "ate"],
+  ["alli", "al"],
+  ["bli", "ble"],
+];
+
+const STEP3: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["alize", "al"],
+  ["icate", "ic"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+];
+
+const STEP4 = [
+  "ement",
+  "ance",
+  "ence",
+  "able",
+  "ible",
+  "ment",
+  "ant",
+  "ent",
+  "ism",
+  "ate",
+  "iti",
+  "ous",
+  "ive",
+  "ize",
+  "al",
+  "er",
+  "ic",
+];
+
+function isVowel(word: string, i: number): boolean {
+  return VOWELS.includes(word[i]);
+}
+
+/**
+ * Start of the region after the first non-vowel that follows a vowel
+ */
+function regionAfter(word: string, start: number): number {
+  for (let i = start + 1; i < word.length; i++) {
+    if (!isVowel(word, i) && isVowel(word, i - 1)) return i + 1;
+  }
+  return word.length;
+}
+
+function endsWithShortSyllable(word: string): boolean {
+  const n = word.length;
+  if (n === 2) return isVowel(word, 0) && !isVowel(word, 1);
+  return (
+    n >= 3 &&
+    !isVowel(word, n - 3) &&
+    isVowel(word, n - 2) &&
+    !isVowel(word, n - 1) &&
+    !"wxY".includes(word[n - 1])
+  );
+}
+
+function hasVowelBefore(word: string, end: number): boolean {
+  for (let i = 0; i < end; i++) {
+    if (isVowel(word, i)) return true;
+  }
+  return false;
+}
+
+/**
+ * Snowball English (Porter2) stemmer
+ */
+export function stemEnglish(input: string): string {
+  if (input.length <= 2) return input;
+  if (EXCEPTIONS[input]) return EXCEPTIONS[input];
+
+  let word = input.replace(/^'/, "");
+  // Consonant-like y is marked Y so it is not treated as a vowel
+  word = word.replace(/^y/, "Y").replace(/([aeiouy])y/g, "$1Y");
+
+  const r1 =
+    /^(gener|commun|arsen)/.exec(word)?.[0].length ?? regionAfter(word, 0);
+  const r2 = regionAfter(word, r1);
+  const inR1 = (suffix: string) => word.length - suffix.length >= r1;
+  const inR2 = (suffix: string) => word.length - suffix.length >= r2;
+  const strip = (suffix: string) => word.slice(0, word.length - suffix.length);
+
+  // Step 0: possessives
+  word = word.replace(/'s'$|'s$|'$/, "");
+
+  // Step 1a: plurals
+  if (word.endsWith("sses")) {
+    word = strip("es");
+  } else if (word.endsWith("ied") || word.endsWith("ies")) {
+    word = word.length > 4 ? strip("ied") + "i" : strip("ied") + "ie";
+  } else if (word.endsWith("us") || word.endsWith("ss")) {
+    // unchanged
+  } else if (word.endsWith("s") && hasVowelBefore(word, word.length - 2)) {
+    word = strip("s");
+  }
+
+  if (EXCEPTIONS_AFTER_1A.has(word)) return word;
+
+  // Step 1b: past tenses and gerunds
+  const eed = ["eedly", "eed"].find((suffix) => word.endsWith(suffix));
+  const ed = ["ingly", "edly", "ing", "ed"].find((suffix) => word.endsWith(suffix));
+  if (eed) {
+    if (inR1(eed)) word = strip(eed) + "ee";
+  } else if (ed && hasVowelBefore(word, word.length - ed.length)) {
+    word = strip(ed);
+    if (/(at|bl|iz)$/.test(word)) {
+      word += "e";
+    } else if (DOUBLES.some((double) => word.endsWith(double))) {
+      word = word.slice(0, -1);
+    } else if (word.length <= r1 && endsWithShortSyllable(word)) {
+      word += "e";
+    }
+  }
+
+  // Step 1c: final y after a consonant
+  if (/[yY]$/.test(word) && word.length > 2 && !isVowel(word, word.length - 2)) {
+    word = word.slice(0, -1) + "i";
+  }
+
+  // Step 2: derivational suffixes in R1
+  const step2 = STEP2.find(([suffix]) => word.endsWith(suffix));
+  if (step2) {
+    if (inR1(step2[0])) word = strip(step2[0]) + step2[1];
+  } else if (word.endsWith("ogi")) {
+    if (inR1("ogi") && word[word.length - 4] === "l") word = strip("i");
+  } else if (word.endsWith("li")) {
+    if (inR1("li") && LI_ENDINGS.includes(word[word.length - 3])) word = strip("li");
+  }
+
+  // Step 3: more derivational suffixes in R1
+  const step3 = STEP3.find(([suffix]) => word.endsWith(suffix));
+  if (step3) {
+    if (inR1(step3[0])) word = strip(step3[0]) + step3[1];
+  } else if (word.endsWith("ative")) {
+    if (inR2("ative")) word = strip("ative");
+  }
+
+  // Step 4: suffixes in R2
+  const step4 = STEP4.find((suffix) => word.endsWith(suffix));
+  if (step4) {
+    if (inR2(step4)) word = strip(step4);
+  } else if (/[st]ion$/.test(word) && inR2("ion")) {
+    word = strip("ion");
+  }
+
+  // Step 5: final e and double l
+  if (word.endsWith("e")) {
+    const stem = strip("e");
+    if (inR2("e") || (inR1("e") && !endsWithShortSyllable(stem))) word = stem;
+  } else if (word.endsWith("ll") && inR2("l")) {
+    word = strip("l");
+  }
+
+  return word.replace(/Y/g, "y");
+}
+
+const STEMMERS: Record<string, Stemmer> = {
+  en: stemEnglish,
+  es: stemSpanish,
+  pt: stemPortuguese,
+  de: stemGerman,
+};
+
+/**
+ * Stem of a word in the given language; the word itself if the language has
+ * no stemmer
+ */
+export function stem(word: string, lang: string): string {
+  const stemmer = STEMMERS[lang];
+  return stemmer ? stemmer(word) : word;
+}
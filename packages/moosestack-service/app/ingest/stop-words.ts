@@ -0,0 +1,293 @@
+import { getMooseUtils } from "@514labs/moose-lib";
+import { StopWord, StopWordTable } from "./models";
+
+/**
+ * Stop words per language, stored in ClickHouse
+ *
+ * The trends API adds and removes words at runtime. Word extraction reloads
+ * the lists every 30 seconds, so changes apply to new posts without a
+ * redeploy, and the trends API can filter them from historical counts at
+ * query time. An empty table is seeded with the default lists below.
+ */
+
+/** Scope of stop words that apply to every language */
+export const ALL_LANGUAGES = "all";
+
+// How often word extraction reloads the lists
+const REFRESH_INTERVAL_MS = 30_000;
+
+// Seeded into an empty StopWord table
+const DEFAULT_STOP_WORDS: Record<string, string[]> = {
+  en: [
+    // Articles
+    "a",
+    "an",
+    "the",
+    // Conjunctions
+    "and",
+    "or",
+    "but",
+    "nor",
+    "so",
+    "yet",
+    // Prepositions
+    "in",
+    "on",
+    "at",
+    "to",
+    "for",
+    "of",
+    "with",
+    "by",
+    "from",
+    "up",
+    "down",
+    "out",
+    "off",
+    "over",
+    "under",
+    "into",
+    "through",
+    "about",
+    "between",
+    "after",
+    "before",
+    // Verbs (common)
+    "is",
+    "are",
+    "was",
+    "were",
+    "be",
+    "been",
+    "being",
+    "have",
+    "has",
+    "had",
+    "do",
+    "does",
+    "did",
+    "will",
+    "would",
+    "could",
+    "should",
+    "may",
+    "might",
+    "must",
+    "can",
+    "get",
+    "got",
+    "go",
+    "going",
+    "went",
+    "come",
+    "came",
+    "make",
+    "made",
+    "take",
+    "took",
+    // Pronouns
+    "i",
+    "me",
+    "my",
+    "mine",
+    "myself",
+    "you",
+    "your",
+    "yours",
+    "yourself",
+    "he",
+    "him",
+    "his",
+    "himself",
+    "she",
+    "her",
+    "hers",
+    "herself",
+    "it",
+    "its",
+    "itself",
+    "we",
+    "us",
+    "our",
+    "ours",
+    "ourselves",
+    "they",
+    "them",
+    "their",
+    "theirs",
+    "themselves",
+    // Demonstratives
+    "this",
+    "that",
+    "these",
+    "those",
+    // Question words
+    "what",
+    "which",
+    "who",
+    "whom",
+    "whose",
+    "when",
+    "where",
+    "why",
+    "how",
+    // Other common words
+    "if",
+    "then",
+    "else",
+    "than",
+    "as",
+    "just",
+    "also",
+    "only",
+    "even",
+    "more",
+    "most",
+    "less",
+    "very",
+    "too",
+    "all",
+    "any",
+    "some",
+    "no",
+    "not",
+    "yes",
+    "now",
+    "here",
+    "there",
+    "still",
+    "well",
+    "back",
+    "way",
+    "like",
+    "know",
+    "think",
+    "see",
+    "want",
+    "say",
+    "said",
+    "really",
+    "much",
+    "one",
+    "two",
+    "new",
+    "good",
+    "first",
+    "last",
+  ],
+  // Link fragments, in any language
+  [ALL_LANGUAGES]: ["https", "http", "www", "com"],
+};
+
+/** Stop words keyed by language subtag or ALL_LANGUAGES */
+export type StopWordLists = Map<string, Set<string>>;
+
+function defaultLists(): StopWordLists {
+  return new Map(
+    Object.entries(DEFAULT_STOP_WORDS).map(([lang, words]) => [lang, new Set(words)]),
+  );
+}
+
+/**
+ * Normalize a word the way the tokenizer does, so it matches extracted words
+ */
+export function normalizeStopWord(word: string): string {
+  return word.normalize("NFKC").toLowerCase().trim();
+}
+
+/**
+ * Write changes to the stop-word table; removals are rows with `removed = 1`
+ */
+async function writeStopWords(lang: string, words: string[], removed: 0 | 1) {
+  const version = Date.now();
+  const rows: StopWord[] = words.map((word) => ({
+    lang,
+    word: normalizeStopWord(word),
+    version,
+    removed,
+  }));
+  await StopWordTable.insert(rows);
+}
+
+export async function addStopWords(lang: string, words: string[]) {
+  await writeStopWords(lang, words, 0);
+}
+
+export async function removeStopWords(lang: string, words: string[]) {
+  await writeStopWords(lang, words, 1);
+}
+
+/**
+ * Seed the default lists if the table has never had a row
+ */
+async function seedDefaults() {
+  const { client, sql } = await getMooseUtils();
+  const result = await client.query.execute(
+    sql`SELECT count() AS rows FROM ${StopWordTable}`,
+  );
+  const [{ rows }] = (await result.json()) as Array<{ rows: string | number }>;
+  if (Number(rows) > 0) return;
+
+  console.log("[StopWords] Seeding default stop words");
+  for (const [lang, words] of Object.entries(DEFAULT_STOP_WORDS)) {
+    await addStopWords(lang, words);
+  }
+}
+
+/**
+ * Read the current stop words from ClickHouse
+ */
+export async function loadStopWords(): Promise<StopWordLists> {
+  await seedDefaults();
+
+  const { client, sql } = await getMooseUtils();
+  const cols = StopWordTable.columns;
+  const result = await client.query.execute(sql`
+    SELECT ${cols.lang} AS lang, ${cols.word} AS word
+    FROM ${StopWordTable} FINAL
+  `);
+  const rows = (await result.json()) as Array<{ lang: string; word: string }>;
+
+  const lists: StopWordLists = new Map();
+  for (const { lang, word } of rows) {
+    if (!lists.has(lang)) lists.set(lang, new Set());
+    lists.get(lang)!.add(word);
+  }
+  return lists;
+}
+
+let loaded: { lists: StopWordLists; loadedAt: number } | null = null;
+let refreshing: Promise<StopWordLists> | null = null;
+
+/**
+ * Current stop words, reloaded every REFRESH_INTERVAL_MS
+ * Until the first load succeeds the default lists apply, and a failed reload
+ * keeps the previous lists.
+ */
+export async function currentStopWords(): Promise<StopWordLists> {
+  if (loaded && Date.now() - loaded.loadedAt < REFRESH_INTERVAL_MS) {
+    return loaded.lists;
+  }
+
+  refreshing ??= loadStopWords()
+    .catch((err) => {
+      console.error("[StopWords] Failed to reload stop words:", err);
+      return loaded?.lists ?? defaultLists();
+    })
+    .then((lists) => {
+      loaded = { lists, loadedAt: Date.now() };
+      refreshing = null;
+      return lists;
+    });
+  return refreshing;
+}
+
+/**
+ * Whether a word is a stop word in the given language or in every language
+ */
+export function isStopWord(lists: StopWordLists, word: string, lang: string): boolean {
+  return (
+    lists.get(lang)?.has(word) === true ||
+    lists.get(ALL_LANGUAGES)?.has(word) === true
+  );
+}
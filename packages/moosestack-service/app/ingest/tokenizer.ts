@@ -0,0 +1,95 @@
+/**
+ * Unicode-aware word tokenizer
+ *
+ * Text is NFKC-normalized, so full-width letters and compatibility forms
+ * match their plain spellings, then split with Intl.Segmenter. The segmenter
+ * uses ICU dictionaries for scripts written without spaces, so Japanese,
+ * Chinese and Thai come out as words rather than whole runs of text.
+ */
+
+// Fold diacritics in Latin and Greek words, so "café" and "cafe" count as
+// one word. Off by default because accents distinguish words in many languages.
+// Read on each call, so the setting can change without reloading the module.
+function foldsDiacritics(): boolean {
+  return process.env.FOLD_DIACRITICS === "true";
+}
+
+// Locale-independent word segmentation
+const segmenter = new Intl.Segmenter(undefined, { granularity: "word" });
+
+/**
+ * Strip combining marks from Latin and Greek letters; marks in other scripts,
+ * like Japanese dakuten or Devanagari vowel signs, are part of the letter
+ */
+function foldDiacritics(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/([\p{Script=Latin}\p{Script=Greek}])\p{M}+/gu, "$1")
+    .normalize("NFC");
+}
+
+// Grapheme segmentation keeps ZWJ sequences, skin tones and flags whole
+const graphemes = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+// A grapheme that is an emoji: a pictograph (with any modifiers and joined
+// parts), a flag made of two regional indicators, or a keycap
+const EMOJI = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3)/u;
+
+// Shown as emoji rather than text, which leaves out symbols like "©" and "™"
+const EMOJI_PRESENTATION = /\p{Emoji_Presentation}|\uFE0F|\u20E3/u;
+
+// Punctuation that ends a clause; phrases never span it
+const CLAUSE_BREAK = /[.,!?;:()[\]{}"“”«»…。、，！？；：\n]+/u;
+
+/**
+ * Normalize text and remove links and @mentions
+ */
+function normalize(text: string): string {
+  const normalized = text
+    .normalize("NFKC")
+    .replace(/https?:\/\/\S+/gi, " ")
+    .replace(/@[\p{L}\p{N}_.-]+/gu, " ")
+    .toLowerCase();
+
+  return foldsDiacritics() ? foldDiacritics(normalized) : normalized;
+}
+
+function segmentWords(text: string): string[] {
+  const words: string[] = [];
+  for (const { segment, isWordLike } of segmenter.segment(text)) {
+    if (isWordLike) words.push(segment);
+  }
+  return words;
+}
+
+/**
+ * Split text into normalized, lowercase words
+ * Links and @mentions are removed; hashtags keep their word without the "#".
+ */
+export function tokenize(text: string): string[] {
+  return segmentWords(normalize(text));
+}
+
+/**
+ * Split text into clauses of normalized words, for extracting phrases that
+ * do not run across sentence or list boundaries
+ */
+export function tokenizeClauses(text: string): string[][] {
+  return normalize(text)
+    .split(CLAUSE_BREAK)
+    .map(segmentWords)
+    .filter((words) => words.length > 0);
+}
+
+/**
+ * Emoji in text, one per grapheme, in order of appearance
+ */
+export function extractEmoji(text: string): string[] {
+  const emoji: string[] = [];
+  for (const { segment } of graphemes.segment(text)) {
+    if (EMOJI.test(segment) && EMOJI_PRESENTATION.test(segment)) {
+      emoji.push(segment);
+    }
+  }
+  return emoji;
+}
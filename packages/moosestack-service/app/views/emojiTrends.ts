@@ -0,0 +1,38 @@
+import typia from "typia";
+import { MaterializedView, ClickHouseEngines, sql } from "@514labs/moose-lib";
+import { EmojiOccurrencePipeline } from "../ingest/models";
+
+/**
+ * Aggregated emoji trends per 10-second interval, post type and language
+ * Used for time-series queries on emoji, like WordTrends for words
+ */
+interface EmojiTrend {
+  emoji: string;
+  interval: Date;
+  postType: string;
+  lang: string;
+  totalCount: number & typia.tags.Type<"int64">;
+}
+
+const emojiTable = EmojiOccurrencePipeline.table!;
+const emojiColumns = emojiTable.columns;
+
+/**
+ * Materialized view aggregating emoji counts by 10-second interval
+ */
+export const EmojiTrendsMV = new MaterializedView<EmojiTrend>({
+  tableName: "EmojiTrends",
+  materializedViewName: "EmojiTrends_MV",
+  engine: ClickHouseEngines.SummingMergeTree,
+  orderByFields: ["emoji", "interval", "postType", "lang"],
+  selectStatement: sql`SELECT
+    ${emojiColumns.emoji} as emoji,
+    toStartOfInterval(${emojiColumns.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
+    ${emojiColumns.postType} as postType,
+    ${emojiColumns.lang} as lang,
+    sum(${emojiColumns.count}) as totalCount
+  FROM ${emojiTable}
+  GROUP BY ${emojiColumns.emoji}, toStartOfInterval(${emojiColumns.intervalTimestamp}, INTERVAL 10 SECOND), ${emojiColumns.postType}, ${emojiColumns.lang}
+  `,
+  selectTables: [emojiTable],
+});
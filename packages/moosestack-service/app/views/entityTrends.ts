@@ -0,0 +1,40 @@
+import typia from "typia";
+import { MaterializedView, ClickHouseEngines, sql } from "@514labs/moose-lib";
+import { EntityOccurrencePipeline } from "../ingest/models";
+
+/**
+ * Aggregated entity trends per 10-second interval, post type and language
+ * Used for time-series queries on named entities, like WordTrends for words
+ */
+interface EntityTrend {
+  entity: string;
+  type: string;
+  interval: Date;
+  postType: string;
+  lang: string;
+  totalCount: number & typia.tags.Type<"int64">;
+}
+
+const entityTable = EntityOccurrencePipeline.table!;
+const entityColumns = entityTable.columns;
+
+/**
+ * Materialized view aggregating entity counts by 10-second interval
+ */
+export const EntityTrendsMV = new MaterializedView<EntityTrend>({
+  tableName: "EntityTrends",
+  materializedViewName: "EntityTrends_MV",
+  engine: ClickHouseEngines.SummingMergeTree,
+  orderByFields: ["entity", "interval", "type", "postType", "lang"],
+  selectStatement: sql`SELECT
+    ${entityColumns.entity} as entity,
+    ${entityColumns.type} as type,
+    toStartOfInterval(${entityColumns.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
+    ${entityColumns.postType} as postType,
+    ${entityColumns.lang} as lang,
+    sum(${entityColumns.count}) as totalCount
+  FROM ${entityTable}
+  GROUP BY ${entityColumns.entity}, ${entityColumns.type}, toStartOfInterval(${entityColumns.intervalTimestamp}, INTERVAL 10 SECOND), ${entityColumns.postType}, ${entityColumns.lang}
+  `,
+  selectTables: [entityTable],
+});
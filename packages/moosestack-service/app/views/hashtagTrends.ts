@@ -0,0 +1,38 @@
+import typia from "typia";
+import { MaterializedView, ClickHouseEngines, sql } from "@514labs/moose-lib";
+import { HashtagOccurrencePipeline } from "../ingest/models";
+
+/**
+ * Aggregated hashtag trends per 10-second interval, post type and language
+ * Used for time-series queries on hashtags, like WordTrends for words
+ */
+interface HashtagTrend {
+  hashtag: string;
+  interval: Date;
+  postType: string;
+  lang: string;
+  totalCount: number & typia.tags.Type<"int64">;
+}
+
+const hashtagTable = HashtagOccurrencePipeline.table!;
+const hashtagColumns = hashtagTable.columns;
+
+/**
+ * Materialized view aggregating hashtag counts by 10-second interval
+ */
+export const HashtagTrendsMV = new MaterializedView<HashtagTrend>({
+  tableName: "HashtagTrends",
+  materializedViewName: "HashtagTrends_MV",
+  engine: ClickHouseEngines.SummingMergeTree,
+  orderByFields: ["hashtag", "interval", "postType", "lang"],
+  selectStatement: sql`SELECT
+    ${hashtagColumns.hashtag} as hashtag,
+    toStartOfInterval(${hashtagColumns.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
+    ${hashtagColumns.postType} as postType,
+    ${hashtagColumns.lang} as lang,
+    sum(${hashtagColumns.count}) as totalCount
+  FROM ${hashtagTable}
+  GROUP BY ${hashtagColumns.hashtag}, toStartOfInterval(${hashtagColumns.intervalTimestamp}, INTERVAL 10 SECOND), ${hashtagColumns.postType}, ${hashtagColumns.lang}
+  `,
+  selectTables: [hashtagTable],
+});
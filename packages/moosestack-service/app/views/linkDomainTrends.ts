@@ -0,0 +1,38 @@
+import typia from "typia";
+import { MaterializedView, ClickHouseEngines, sql } from "@514labs/moose-lib";
+import { LinkOccurrencePipeline } from "../ingest/models";
+
+/**
+ * Aggregated link domain trends per 10-second interval, post type and language
+ * Shows which sites are being shared
+ */
+interface LinkDomainTrend {
+  domain: string;
+  interval: Date;
+  postType: string;
+  lang: string;
+  totalCount: number & typia.tags.Type<"int64">;
+}
+
+const linkTable = LinkOccurrencePipeline.table!;
+const linkColumns = linkTable.columns;
+
+/**
+ * Materialized view aggregating link counts per domain by 10-second interval
+ */
+export const LinkDomainTrendsMV = new MaterializedView<LinkDomainTrend>({
+  tableName: "LinkDomainTrends",
+  materializedViewName: "LinkDomainTrends_MV",
+  engine: ClickHouseEngines.SummingMergeTree,
+  orderByFields: ["domain", "interval", "postType", "lang"],
+  selectStatement: sql`SELECT
+    ${linkColumns.domain} as domain,
+    toStartOfInterval(${linkColumns.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
+    ${linkColumns.postType} as postType,
+    ${linkColumns.lang} as lang,
+    sum(${linkColumns.count}) as totalCount
+  FROM ${linkTable}
+  GROUP BY ${linkColumns.domain}, toStartOfInterval(${linkColumns.intervalTimestamp}, INTERVAL 10 SECOND), ${linkColumns.postType}, ${linkColumns.lang}
+  `,
+  selectTables: [linkTable],
+});
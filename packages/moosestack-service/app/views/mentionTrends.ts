@@ -0,0 +1,38 @@
+import typia from "typia";
+import { MaterializedView, ClickHouseEngines, sql } from "@514labs/moose-lib";
+import { MentionOccurrencePipeline } from "../ingest/models";
+
+/**
+ * Aggregated mention trends per 10-second interval, post type and language
+ * Shows which accounts are being talked about
+ */
+interface MentionTrend {
+  did: string;
+  interval: Date;
+  postType: string;
+  lang: string;
+  totalCount: number & typia.tags.Type<"int64">;
+}
+
+const mentionTable = MentionOccurrencePipeline.table!;
+const mentionColumns = mentionTable.columns;
+
+/**
+ * Materialized view aggregating mention counts by 10-second interval
+ */
+export const MentionTrendsMV = new MaterializedView<MentionTrend>({
+  tableName: "MentionTrends",
+  materializedViewName: "MentionTrends_MV",
+  engine: ClickHouseEngines.SummingMergeTree,
+  orderByFields: ["did", "interval", "postType", "lang"],
+  selectStatement: sql`SELECT
+    ${mentionColumns.did} as did,
+    toStartOfInterval(${mentionColumns.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
+    ${mentionColumns.postType} as postType,
+    ${mentionColumns.lang} as lang,
+    sum(${mentionColumns.count}) as totalCount
+  FROM ${mentionTable}
+  GROUP BY ${mentionColumns.did}, toStartOfInterval(${mentionColumns.intervalTimestamp}, INTERVAL 10 SECOND), ${mentionColumns.postType}, ${mentionColumns.lang}
+  `,
+  selectTables: [mentionTable],
+});
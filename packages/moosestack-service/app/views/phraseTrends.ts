@@ -0,0 +1,45 @@
+import typia from "typia";
+import {
+  MaterializedView,
+  ClickHouseEngines,
+  UInt8,
+  sql,
+} from "@514labs/moose-lib";
+import { PhraseOccurrencePipeline } from "../ingest/models";
+
+/**
+ * Aggregated phrase trends per 10-second interval, post type and language
+ * Used for time-series queries on phrases, like WordTrends for words
+ */
+interface PhraseTrend {
+  phrase: string;
+  interval: Date;
+  size: UInt8;
+  postType: string;
+  lang: string;
+  totalCount: number & typia.tags.Type<"int64">;
+}
+
+const phraseTable = PhraseOccurrencePipeline.table!;
+const phraseColumns = phraseTable.columns;
+
+/**
+ * Materialized view aggregating phrase counts by 10-second interval
+ */
+export const PhraseTrendsMV = new MaterializedView<PhraseTrend>({
+  tableName: "PhraseTrends",
+  materializedViewName: "PhraseTrends_MV",
+  engine: ClickHouseEngines.SummingMergeTree,
+  orderByFields: ["phrase", "interval", "size", "postType", "lang"],
+  selectStatement: sql`SELECT
+    ${phraseColumns.phrase} as phrase,
+    toStartOfInterval(${phraseColumns.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
+    ${phraseColumns.size} as size,
+    ${phraseColumns.postType} as postType,
+    ${phraseColumns.lang} as lang,
+    sum(${phraseColumns.count}) as totalCount
+  FROM ${phraseTable}
+  GROUP BY ${phraseColumns.phrase}, toStartOfInterval(${phraseColumns.intervalTimestamp}, INTERVAL 10 SECOND), ${phraseColumns.size}, ${phraseColumns.postType}, ${phraseColumns.lang}
+  `,
+  selectTables: [phraseTable],
+});
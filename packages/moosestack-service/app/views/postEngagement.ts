@@ -0,0 +1,36 @@
+import typia from "typia";
+import { MaterializedView, ClickHouseEngines, sql } from "@514labs/moose-lib";
+import { EngagementEventPipeline } from "../ingest/models";
+
+/**
+ * Likes and reposts per post per 1-minute interval
+ * Used to weight word trends by how much the posts containing them resonate
+ */
+interface PostEngagement {
+  postUri: string;
+  interval: Date;
+  likes: number & typia.tags.Type<"int64">;
+  reposts: number & typia.tags.Type<"int64">;
+}
+
+const engagementTable = EngagementEventPipeline.table!;
+const engagementColumns = engagementTable.columns;
+
+/**
+ * Materialized view summing engagement events by post and minute
+ */
+export const PostEngagementMV = new MaterializedView<PostEngagement>({
+  tableName: "PostEngagement",
+  materializedViewName: "PostEngagement_MV",
+  engine: ClickHouseEngines.SummingMergeTree,
+  orderByFields: ["postUri", "interval"],
+  selectStatement: sql`SELECT
+    ${engagementColumns.subjectUri} as postUri,
+    toStartOfMinute(${engagementColumns.createdAt}) as interval,
+    countIf(${engagementColumns.kind} = 'like') as likes,
+    countIf(${engagementColumns.kind} = 'repost') as reposts
+  FROM ${engagementTable}
+  GROUP BY ${engagementColumns.subjectUri}, toStartOfMinute(${engagementColumns.createdAt})
+  `,
+  selectTables: [engagementTable],
+});
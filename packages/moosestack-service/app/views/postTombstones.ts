@@ -0,0 +1,33 @@
+import { MaterializedView, sql } from "@514labs/moose-lib";
+import {
+  BlueskyPost,
+  BlueskyPostPipeline,
+  PostDeletionPipeline,
+} from "../ingest/models";
+
+const deletionTable = PostDeletionPipeline.table!;
+const deletionColumns = deletionTable.columns;
+
+/**
+ * Materialized view writing a tombstone into BlueskyPost for every deletion
+ * The tombstone has empty text, a newer version than the post and
+ * `deleted = 1`, so ReplacingMergeTree drops the post from FINAL queries and
+ * discards its text when parts merge. BlueskyPost is partitioned on postId's
+ * record key, so the tombstone lands in the post's partition whatever its
+ * createdAt; that is the post's creation time from its record key when it can.
+ */
+export const PostTombstonesMV = new MaterializedView<BlueskyPost>({
+  materializedViewName: "PostTombstones_MV",
+  targetTable: BlueskyPostPipeline.table!,
+  selectStatement: sql`SELECT
+    coalesce(${deletionColumns.postCreatedAt}, ${deletionColumns.deletedAt}) as createdAt,
+    ${deletionColumns.postId} as postId,
+    '' as text,
+    ${deletionColumns.authorDid} as authorDid,
+    false as backfilled,
+    ${deletionColumns.version} as version,
+    toUInt8(1) as deleted
+  FROM ${deletionTable}
+  `,
+  selectTables: [deletionTable],
+});
@@ -0,0 +1,56 @@
+import typia from "typia";
+import {
+  MaterializedView,
+  ClickHouseEngines,
+  sql,
+  Aggregated,
+  SimpleAggregated,
+} from "@514labs/moose-lib";
+import { WordOccurrencePipeline } from "../ingest/models";
+
+/**
+ * Distinct authors per word, 10-second interval, post type and language
+ * One account repeating a word counts once, so ranking by authors resists
+ * spam amplification. Occurrence and sentiment sums are kept alongside, so
+ * rankings need only this table.
+ */
+interface WordAuthorTrend {
+  word: string;
+  stem: string;
+  interval: Date;
+  postType: string;
+  lang: string;
+  // Query with uniqMerge(authors)
+  authors: number & Aggregated<"uniq", [string]>;
+  totalCount: number & SimpleAggregated<"sum", number & typia.tags.Type<"int64">>;
+  sentimentSum: number & SimpleAggregated<"sum", number & typia.tags.Type<"double">>;
+  sentimentCount: number & SimpleAggregated<"sum", number & typia.tags.Type<"int64">>;
+}
+
+const wordTable = WordOccurrencePipeline.table!;
+const wordColumns = wordTable.columns;
+
+/**
+ * Materialized view keeping a uniq state of authors per word and interval
+ * Negative occurrences of deleted posts lower totalCount but not authors.
+ */
+export const WordAuthorTrendsMV = new MaterializedView<WordAuthorTrend>({
+  tableName: "WordAuthorTrends",
+  materializedViewName: "WordAuthorTrends_MV",
+  engine: ClickHouseEngines.AggregatingMergeTree,
+  orderByFields: ["word", "interval", "postType", "lang", "stem"],
+  selectStatement: sql`SELECT
+    ${wordColumns.word} as word,
+    ${wordColumns.stem} as stem,
+    toStartOfInterval(${wordColumns.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
+    ${wordColumns.postType} as postType,
+    ${wordColumns.lang} as lang,
+    uniqState(${wordColumns.authorDid}) as authors,
+    sum(${wordColumns.count}) as totalCount,
+    sum(ifNull(${wordColumns.sentiment}, 0) * ${wordColumns.count}) as sentimentSum,
+    sumIf(${wordColumns.count}, isNotNull(${wordColumns.sentiment})) as sentimentCount
+  FROM ${wordTable}
+  GROUP BY ${wordColumns.word}, toStartOfInterval(${wordColumns.intervalTimestamp}, INTERVAL 10 SECOND), ${wordColumns.postType}, ${wordColumns.lang}, ${wordColumns.stem}
+  `,
+  selectTables: [wordTable],
+});
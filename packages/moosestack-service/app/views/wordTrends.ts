@@ -3,13 +3,21 @@ import { MaterializedView, ClickHouseEngines, sql } from "@514labs/moose-lib";
 import { WordOccurrencePipeline } from "../ingest/models";
 
 /**
- * Aggregated word trends per 10-second interval
- * Used for efficient time-series queries on word frequency
+ * Aggregated word trends per 10-second interval, post type and language
+ * Used for efficient time-series queries on word frequency and sentiment
  */
 interface WordTrend {
   word: string;
+  stem: string;
   interval: Date;
+  postType: string;
+  lang: string;
   totalCount: number & typia.tags.Type<"int64">;
+  // Sum of each occurrence's post sentiment; divided by sentimentCount, the
+  // occurrences in English posts (the only ones scored), it is the average
+  // sentiment of the word
+  sentimentSum: number & typia.tags.Type<"double">;
+  sentimentCount: number & typia.tags.Type<"int64">;
 }
 
 const wordTable = WordOccurrencePipeline.table!;
@@ -23,13 +31,18 @@ export const WordTrendsMV = new MaterializedView<WordTrend>({
   tableName: "WordTrends",
   materializedViewName: "WordTrends_MV",
   engine: ClickHouseEngines.SummingMergeTree,
-  orderByFields: ["word", "interval"],
+  orderByFields: ["word", "interval", "postType", "lang", "stem"],
   selectStatement: sql`SELECT
     ${wordColumns.word} as word,
+    ${wordColumns.stem} as stem,
     toStartOfInterval(${wordColumns.intervalTimestamp}, INTERVAL 10 SECOND) as interval,
-    sum(${wordColumns.count}) as totalCount
+    ${wordColumns.postType} as postType,
+    ${wordColumns.lang} as lang,
+    sum(${wordColumns.count}) as totalCount,
+    sum(ifNull(${wordColumns.sentiment}, 0) * ${wordColumns.count}) as sentimentSum,
+    sumIf(${wordColumns.count}, isNotNull(${wordColumns.sentiment})) as sentimentCount
   FROM ${wordTable}
-  GROUP BY ${wordColumns.word}, toStartOfInterval(${wordColumns.intervalTimestamp}, INTERVAL 10 SECOND)
+  GROUP BY ${wordColumns.word}, toStartOfInterval(${wordColumns.intervalTimestamp}, INTERVAL 10 SECOND), ${wordColumns.postType}, ${wordColumns.lang}, ${wordColumns.stem}
   `,
   selectTables: [wordTable],
 });
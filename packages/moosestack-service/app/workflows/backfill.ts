@@ -0,0 +1,252 @@
+import { Task, Workflow } from "@514labs/moose-lib";
+import { Context } from "@temporalio/activity";
+import {
+  FirehoseSource,
+  FrameRecords,
+  SourceFrame,
+  SourceOutcome,
+} from "./sources/types";
+import {
+  createJetStreamSource,
+  DEFAULT_JETSTREAM_ENDPOINTS,
+} from "./sources/jetstream";
+import { createReplaySource } from "./sources/replay";
+import { createRetryPolicy } from "./retry";
+import { sleep } from "./utils";
+import {
+  createPostBatcher,
+  DEFAULT_BATCHING_OPTIONS,
+  DeliveryStats,
+} from "./batcher";
+import { sendRecords } from "./streams";
+
+/**
+ * Historical backfill
+ *
+ * Re-ingests a closed `[fromCursor, toCursor]` range of JetStream time_us
+ * cursors, for example to fill a gap after an outage. It runs as its own
+ * workflow next to the live firehose: every run keeps its cursor and batcher
+ * local, never reads or writes the live cursor key, and does not publish to
+ * the firehose status. Progress is checkpointed in Temporal heartbeats, so a
+ * retried activity resumes where the previous attempt was acknowledged.
+ *
+ * Run with `moose workflow run backfill --input '{...}'`
+ */
+export interface BackfillInput {
+  /** First time_us cursor to ingest (inclusive) */
+  fromCursor: number;
+  /** Last time_us cursor to ingest (inclusive) */
+  toCursor: number;
+  /** Read the range from the live JetStream (default) or a recording */
+  source?: "jetstream" | "replay";
+  /** Recording file or directory, required for the replay source */
+  replayFile?: string;
+  /** JetStream base URLs to fail over between, in order of preference */
+  jetstreamEndpoints?: string[];
+}
+
+export interface BackfillResult {
+  fromCursor: number;
+  toCursor: number;
+  /** Highest cursor acknowledged by the stream */
+  committedCursor: number;
+  /** Share of the time range covered, 0-100 */
+  progress: number;
+  /** False when the source ran out of data before `toCursor` */
+  completed: boolean;
+  delivery: DeliveryStats;
+}
+
+interface BackfillCheckpoint {
+  cursor: number;
+  progress: number;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Log progress every this many frames
+const PROGRESS_LOG_FRAMES = 10_000;
+
+/**
+ * Build the frame source for the backfill range
+ */
+function createBackfillSource(input: BackfillInput): FirehoseSource {
+  if (input.source === "replay") {
+    if (!input.replayFile) {
+      throw new Error("replayFile is required when source is \"replay\"");
+    }
+    return createReplaySource({
+      file: input.replayFile,
+      speed: 0,
+      resume: false,
+    });
+  }
+
+  return createJetStreamSource({
+    endpoints: input.jetstreamEndpoints ?? DEFAULT_JETSTREAM_ENDPOINTS,
+    publishStatus: false,
+  });
+}
+
+/**
+ * Share of the range covered by `cursor`, as a percentage
+ */
+function progressOf(input: BackfillInput, cursor: number): number {
+  const span = input.toCursor - input.fromCursor;
+  const covered = span === 0 ? 1 : (cursor - input.fromCursor) / span;
+  return Number((Math.min(1, Math.max(0, covered)) * 100).toFixed(1));
+}
+
+function tagBackfilled(frame: SourceFrame): FrameRecords {
+  return {
+    ...frame,
+    posts: frame.posts.map((post) => ({ ...post, backfilled: true })),
+  };
+}
+
+/**
+ * Backfill ingestion task, stopping exactly at `toCursor`
+ */
+export const backfillTask = new Task<BackfillInput, BackfillResult>(
+  "backfill-ingest",
+  {
+    run: async ({ input }) => {
+      if (!input || !(input.toCursor >= input.fromCursor)) {
+        throw new Error("Backfill requires fromCursor <= toCursor");
+      }
+      const range = `${input.fromCursor}-${input.toCursor}`;
+      const source = createBackfillSource(input);
+
+      const ctx = Context.current();
+      const cancellationSignal = ctx.cancellationSignal;
+
+      // Resume after the last acknowledged cursor if this is a retry
+      const checkpoint = ctx.info.heartbeatDetails as BackfillCheckpoint | undefined;
+      const startCursor = checkpoint?.cursor ?? input.fromCursor - 1;
+      console.log(
+        `[Backfill] Backfilling ${range} from ${source.name}, starting after cursor ${startCursor}`,
+      );
+
+      let readCursor = startCursor;
+      let frameCount = 0;
+      let reachedEnd = false;
+
+      const batcher = createPostBatcher({
+        ...DEFAULT_BATCHING_OPTIONS,
+        send: sendRecords,
+        initialCursor: startCursor,
+      });
+
+      const heartbeat = () => {
+        const cursor = batcher.committedCursor();
+        const details: BackfillCheckpoint = {
+          cursor,
+          progress: progressOf(input, cursor),
+        };
+        ctx.heartbeat(details);
+      };
+
+      // Aborted on cancellation or once a frame passes `toCursor`
+      const stop = new AbortController();
+      const onCancelled = () => stop.abort();
+      cancellationSignal.addEventListener("abort", onCancelled);
+
+      const processFrame = (frame: SourceFrame) => {
+        if (reachedEnd || frame.cursor === null) return;
+
+        // Failover rewinds can repeat frames from before the range
+        if (frame.cursor < input.fromCursor) return;
+
+        if (frame.cursor > input.toCursor) {
+          reachedEnd = true;
+          stop.abort();
+          return;
+        }
+
+        readCursor = frame.cursor;
+        batcher.add(frame.cursor, tagBackfilled(frame));
+
+        frameCount++;
+        if (frameCount % PROGRESS_LOG_FRAMES === 0) {
+          console.log(
+            `[Backfill] ${range}: ${progressOf(input, readCursor)}% read, ${batcher.stats().sentRecords} records sent`,
+          );
+        }
+      };
+
+      const retry = createRetryPolicy();
+      const heartbeatTimer = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+      let completed = false;
+
+      try {
+        while (!stop.signal.aborted) {
+          retry.attempting();
+          heartbeat();
+
+          let outcome: SourceOutcome;
+          try {
+            outcome = await source.run(
+              readCursor,
+              processFrame,
+              stop.signal,
+              batcher.flow,
+            );
+          } catch (error) {
+            console.error("[Backfill] Connection failed:", error);
+            outcome = { result: "disconnected", closeKind: "network", connectedMs: 0 };
+          }
+
+          if (outcome.result === "ended") {
+            console.warn(
+              `[Backfill] Source ${source.name} ran out of data at cursor ${readCursor} (${progressOf(input, readCursor)}%)`,
+            );
+            break;
+          }
+          if (stop.signal.aborted) break;
+
+          const { delayMs, reason } = retry.next(outcome);
+          console.log(
+            `[Backfill] ${reason}, reconnecting in ${(delayMs / 1000).toFixed(1)}s`,
+          );
+          await sleep(delayMs, stop.signal);
+        }
+
+        completed = reachedEnd || readCursor === input.toCursor;
+        await batcher.drain();
+        heartbeat();
+      } finally {
+        clearInterval(heartbeatTimer);
+        cancellationSignal.removeEventListener("abort", onCancelled);
+      }
+
+      if (cancellationSignal.aborted && !completed) {
+        console.log(`[Backfill] ${range} cancelled, exiting...`);
+      }
+
+      const committedCursor = batcher.committedCursor();
+      const result: BackfillResult = {
+        fromCursor: input.fromCursor,
+        toCursor: input.toCursor,
+        committedCursor,
+        progress: progressOf(input, committedCursor),
+        completed,
+        delivery: batcher.stats(),
+      };
+      console.log(
+        `[Backfill] ${range} finished at ${result.progress}%: ${result.delivery.sentRecords} records sent, ${result.delivery.droppedRecords} dropped`,
+      );
+      return result;
+    },
+    retries: 3,
+    timeout: "24h",
+  },
+);
+
+/**
+ * Backfill workflow - ingests a historical cursor range alongside the live firehose
+ */
+export const backfillWorkflow = new Workflow("backfill", {
+  startingTask: backfillTask,
+  retries: 3,
+  timeout: "24h",
+});
@@ -0,0 +1,314 @@
+import {
+  appendRecords,
+  countRecords,
+  emptyRecords,
+  FlowControl,
+  FrameRecords,
+} from "./sources/types";
+
+/**
+ * At-least-once batching of firehose records (posts, deletions, ...)
+ *
+ * Frames are grouped into batches that remember the cursor of the last frame
+ * they cover. The committed cursor only moves past a batch once the stream
+ * has acknowledged it and every earlier batch, so a checkpoint never skips
+ * records that are still in flight. Failed batches are retried with backoff
+ * while the retry queue has room; when it is full, or a batch runs out of
+ * attempts, the batch is dropped and counted so the cursor can move on.
+ *
+ * Backpressure: records that are queued but not yet acknowledged are counted
+ * against a high watermark. Crossing it pauses the source through `flow`
+ * until the queue drains below the low watermark. Batch size and interval
+ * grow while sends are slow, so a struggling stream gets fewer, larger
+ * requests, and shrink back once latency recovers.
+ */
+
+export interface BatchingOptions {
+  /** Starting and smallest batch size, in records */
+  batchSize: number;
+  /** Starting and shortest batch interval */
+  batchIntervalMs: number;
+  maxBatchSize: number;
+  maxBatchIntervalMs: number;
+  /** Pause the source once this many records are queued */
+  highWatermark: number;
+  /** Resume the source once the queue is back down to this many records */
+  lowWatermark: number;
+  maxSendAttempts: number;
+  /** Most failed batches waiting for a retry at once */
+  maxRetryQueue: number;
+}
+
+export const DEFAULT_BATCHING_OPTIONS: BatchingOptions = {
+  batchSize: 100,
+  batchIntervalMs: 500,
+  maxBatchSize: 1_000,
+  maxBatchIntervalMs: 5_000,
+  highWatermark: 5_000,
+  lowWatermark: 1_000,
+  maxSendAttempts: 5,
+  maxRetryQueue: 50,
+};
+
+export interface PostBatcherOptions extends BatchingOptions {
+  /** Deliver a batch, resolving once every stream has acknowledged it */
+  send: (records: FrameRecords) => Promise<void>;
+  /** Cursor already committed when the batcher starts */
+  initialCursor: number;
+  /** Called whenever batches are given up on */
+  onDrop?: (stats: DeliveryStats) => void;
+  /** Called when the source is paused or resumed */
+  onPressure?: (paused: boolean, stats: DeliveryStats) => void;
+}
+
+export interface DeliveryStats {
+  committedCursor: number;
+  sentRecords: number;
+  inFlightBatches: number;
+  retryQueueDepth: number;
+  droppedBatches: number;
+  droppedRecords: number;
+  /** Records added but not yet acknowledged or dropped */
+  queuedRecords: number;
+  /** Smoothed send latency, null until the first send completes */
+  sendLatencyMs: number | null;
+  batchSize: number;
+  batchIntervalMs: number;
+  /** Whether the source is currently paused by backpressure */
+  paused: boolean;
+  pauses: number;
+  /** Total time spent paused, including the current pause */
+  pausedMs: number;
+}
+
+export interface PostBatcher {
+  /** Add the records of a frame and advance the batch to its cursor */
+  add: (cursor: number | null, records: FrameRecords) => void;
+  /** Seal and send the open batch */
+  flush: () => void;
+  /** Flush and wait until every batch is acknowledged or dropped */
+  drain: () => Promise<void>;
+  committedCursor: () => number;
+  stats: () => DeliveryStats;
+  /** Pause/resume signal for the source */
+  flow: FlowControl;
+}
+
+interface Batch {
+  records: FrameRecords;
+  /** Number of records, across every kind */
+  size: number;
+  /** Highest cursor covered by this batch, null if no frame carried one */
+  cursor: number | null;
+  settled: boolean;
+}
+
+// Backoff between send attempts: 500ms, 1s, 2s, ...
+const RETRY_BASE_DELAY_MS = 500;
+
+// Grow batches while the smoothed send latency is above this, shrink them
+// while it is below half of it
+const TARGET_SEND_LATENCY_MS = 250;
+
+// Smoothing factor for send latency
+const LATENCY_EWMA_ALPHA = 0.2;
+
+function newBatch(): Batch {
+  return { records: emptyRecords(), size: 0, cursor: null, settled: false };
+}
+
+export function createPostBatcher(options: PostBatcherOptions): PostBatcher {
+  let open = newBatch();
+  let batchTimer: NodeJS.Timeout | null = null;
+
+  // Sealed batches in cursor order, removed from the front once settled
+  const sealed: Batch[] = [];
+  const inFlight = new Set<Promise<void>>();
+  const retryQueue = new Set<Batch>();
+
+  let committed = options.initialCursor;
+  let sentRecords = 0;
+  let droppedBatches = 0;
+  let droppedRecords = 0;
+
+  // Adaptive batching
+  let batchSize = options.batchSize;
+  let batchIntervalMs = options.batchIntervalMs;
+  let sendLatencyMs: number | null = null;
+
+  // Backpressure
+  let queuedRecords = 0;
+  let paused = false;
+  let pausedAt = 0;
+  let pauses = 0;
+  let pausedMs = 0;
+  const flowListeners = new Set<(paused: boolean) => void>();
+
+  function stats(): DeliveryStats {
+    return {
+      committedCursor: committed,
+      sentRecords,
+      inFlightBatches: sealed.length,
+      retryQueueDepth: retryQueue.size,
+      droppedBatches,
+      droppedRecords,
+      queuedRecords,
+      sendLatencyMs: sendLatencyMs === null ? null : Math.round(sendLatencyMs),
+      batchSize,
+      batchIntervalMs,
+      paused,
+      pauses,
+      pausedMs: paused ? pausedMs + Date.now() - pausedAt : pausedMs,
+    };
+  }
+
+  function setPaused(next: boolean) {
+    if (next === paused) return;
+    paused = next;
+    if (paused) {
+      pauses++;
+      pausedAt = Date.now();
+      console.warn(
+        `[Firehose] ${queuedRecords} records queued, pausing source until ${options.lowWatermark}`,
+      );
+    } else {
+      const pauseMs = Date.now() - pausedAt;
+      pausedMs += pauseMs;
+      console.log(`[Firehose] Queue drained, resuming source after ${pauseMs}ms`);
+    }
+    for (const listener of flowListeners) listener(paused);
+    options.onPressure?.(paused, stats());
+  }
+
+  function updateQueue(delta: number) {
+    queuedRecords += delta;
+    if (!paused && queuedRecords >= options.highWatermark) {
+      setPaused(true);
+    } else if (paused && queuedRecords <= options.lowWatermark) {
+      setPaused(false);
+    }
+  }
+
+  function recordLatency(latencyMs: number) {
+    sendLatencyMs =
+      sendLatencyMs === null
+        ? latencyMs
+        : sendLatencyMs + LATENCY_EWMA_ALPHA * (latencyMs - sendLatencyMs);
+
+    if (sendLatencyMs > TARGET_SEND_LATENCY_MS) {
+      batchSize = Math.min(options.maxBatchSize, batchSize * 2);
+      batchIntervalMs = Math.min(options.maxBatchIntervalMs, batchIntervalMs * 2);
+    } else if (sendLatencyMs < TARGET_SEND_LATENCY_MS / 2) {
+      batchSize = Math.max(options.batchSize, Math.floor(batchSize * 0.75));
+      batchIntervalMs = Math.max(
+        options.batchIntervalMs,
+        Math.floor(batchIntervalMs * 0.75),
+      );
+    }
+  }
+
+  function settle(batch: Batch) {
+    batch.settled = true;
+    updateQueue(-batch.size);
+    while (sealed.length > 0 && sealed[0].settled) {
+      const head = sealed.shift()!;
+      if (head.cursor !== null && head.cursor > committed) {
+        committed = head.cursor;
+      }
+    }
+  }
+
+  function drop(batch: Batch, reason: string) {
+    droppedBatches++;
+    droppedRecords += batch.size;
+    console.error(
+      `[Firehose] Dropping batch of ${batch.size} records (${reason}); ${droppedRecords} records dropped so far`,
+    );
+    settle(batch);
+    options.onDrop?.(stats());
+  }
+
+  async function deliver(batch: Batch) {
+    for (let attempt = 1; attempt <= options.maxSendAttempts; attempt++) {
+      try {
+        const startedAt = Date.now();
+        await options.send(batch.records);
+        recordLatency(Date.now() - startedAt);
+        sentRecords += batch.size;
+        retryQueue.delete(batch);
+        settle(batch);
+        return;
+      } catch (err) {
+        console.error(
+          `[Firehose] Failed to send batch (attempt ${attempt}/${options.maxSendAttempts}):`,
+          err,
+        );
+      }
+
+      if (attempt === options.maxSendAttempts) break;
+      if (!retryQueue.has(batch) && retryQueue.size >= options.maxRetryQueue) {
+        drop(batch, "retry queue full");
+        return;
+      }
+      retryQueue.add(batch);
+      const delayMs = RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    retryQueue.delete(batch);
+    drop(batch, `gave up after ${options.maxSendAttempts} attempts`);
+  }
+
+  function flush() {
+    if (batchTimer) {
+      clearTimeout(batchTimer);
+      batchTimer = null;
+    }
+
+    const batch = open;
+    if (batch.size === 0 && batch.cursor === null) return;
+    open = newBatch();
+    sealed.push(batch);
+
+    // Frames without records still need to move the checkpoint
+    if (batch.size === 0) {
+      settle(batch);
+      return;
+    }
+
+    const delivery = deliver(batch).finally(() => inFlight.delete(delivery));
+    inFlight.add(delivery);
+  }
+
+  return {
+    add: (cursor, records) => {
+      if (cursor !== null) open.cursor = cursor;
+      const added = countRecords(records);
+      appendRecords(open.records, records);
+      open.size += added;
+      updateQueue(added);
+
+      if (open.size >= batchSize) {
+        flush();
+      } else if (!batchTimer) {
+        batchTimer = setTimeout(flush, batchIntervalMs);
+      }
+    },
+    flush,
+    drain: async () => {
+      flush();
+      while (inFlight.size > 0) {
+        await Promise.all(inFlight);
+      }
+    },
+    committedCursor: () => committed,
+    stats,
+    flow: {
+      isPaused: () => paused,
+      onChange: (listener) => {
+        flowListeners.add(listener);
+        return () => flowListeners.delete(listener);
+      },
+    },
+  };
+}
@@ -1,41 +1,95 @@
 import { Task, Workflow, MooseCache } from "@514labs/moose-lib";
 import { Context } from "@temporalio/activity";
-import WebSocket from "ws";
-import { BlueskyPost, BlueskyPostPipeline } from "../ingest/models";
+import {
+  FirehoseSource,
+  FrameRecords,
+  SourceFrame,
+  SourceOutcome,
+} from "./sources/types";
+import {
+  createJetStreamSource,
+  DEFAULT_JETSTREAM_ENDPOINTS,
+} from "./sources/jetstream";
+import { createReplaySource } from "./sources/replay";
+import { createRepoFirehoseSource } from "./sources/atproto";
+import { createFrameRecorder, FrameRecorder } from "./recorder";
+import { updateStatus } from "./status";
+import { createRetryPolicy, RetryPolicy } from "./retry";
+import { sleep } from "./utils";
+import {
+  createPostBatcher,
+  DEFAULT_BATCHING_OPTIONS,
+  PostBatcher,
+} from "./batcher";
+import { sendRecords } from "./streams";
 
-// JetStream endpoint for Bluesky firehose (JSON format)
-const JETSTREAM_BASE_URL =
-  "wss://jetstream2.us-east.bsky.network/subscribe?wantedCollections=app.bsky.feed.post";
-
-// Redis key for cursor persistence
-const CURSOR_KEY = "bluesky:firehose:cursor";
+/**
+ * Per-run options, passed with `moose workflow run firehose --input '{...}'`
+ */
+export interface FirehoseInput {
+  /**
+   * Where frames come from: the live JetStream (default), a recorded
+   * JetStream file, or the native AT Protocol repo firehose
+   */
+  source?: "jetstream" | "replay" | "atproto";
+  /** JSONL file of recorded frames, required for the replay source */
+  replayFile?: string;
+  /** Replay speed: 1 = real time (default), N = N times faster, 0 = unpaced */
+  replaySpeed?: number;
+  /**
+   * Continue a replay after the cursor its last run saved; by default every
+   * replay starts from the first frame of the recording
+   */
+  replayResume?: boolean;
+  /** JetStream base URLs to fail over between, in order of preference */
+  jetstreamEndpoints?: string[];
+  /** Relay host for the atproto source (default wss://bsky.network) */
+  relayUrl?: string;
+  /** Capture raw frames to this directory; recording is off when unset */
+  recordDir?: string;
+  /** Rotate recordings at this compressed size (default 64 MB) */
+  recordMaxBytes?: number;
+  /** Rotate recordings after this many seconds (default 15 minutes) */
+  recordMaxSeconds?: number;
+}
 
-// Batching for Kafka efficiency
-const BATCH_SIZE = 100;
-const BATCH_INTERVAL_MS = 500;
-let postBatch: BlueskyPost[] = [];
-let batchTimer: NodeJS.Timeout | null = null;
+// Heartbeat cadence for reporting reconnect state to Temporal
+const HEARTBEAT_INTERVAL_MS = 30_000;
 
 // Stats tracking
 let postsProcessed = 0;
 let lastStatsTime = Date.now();
 
-// Current cursor (time_us from last message, in microseconds)
+// Current cursor (time_us from last message, in microseconds). This is the
+// read position used to reconnect; the saved checkpoint is the batcher's
+// committed cursor, which trails it until the streams acknowledge the records.
 let currentCursor: number = 0;
+let messageCount = 0;
 
-async function saveCursor(cursor: number) {
+// Batches records and tracks the committed cursor, created per run
+let batcher: PostBatcher | null = null;
+
+// Raw frame capture, enabled per run with `recordDir`
+let recorder: FrameRecorder | null = null;
+
+async function saveCursor(source: FirehoseSource, cursor: number) {
   try {
     const cache = await MooseCache.get();
-    await cache.set(CURSOR_KEY, cursor.toString(), 60 * 60 * 24 * 7); // 7 day TTL
+    await cache.set(source.cursorKey, cursor.toString(), 60 * 60 * 24 * 7); // 7 day TTL
+    updateStatus({ cursor, delivery: batcher?.stats() ?? null });
   } catch (err) {
     console.error("[Firehose] Failed to save cursor:", err);
   }
 }
 
-async function loadCursor(): Promise<number> {
+async function loadCursor(source: FirehoseSource): Promise<number> {
+  if (source.resume === false) {
+    return source.defaultCursor();
+  }
+
   try {
     const cache = await MooseCache.get();
-    const value = await cache.get<string>(CURSOR_KEY);
+    const value = await cache.get<string>(source.cursorKey);
     if (value) {
       return parseInt(value, 10);
     }
@@ -43,64 +97,33 @@ async function loadCursor(): Promise<number> {
     console.error("[Firehose] Failed to load cursor:", err);
   }
 
-  // Default to 24 hours ago (JetStream cursor is in microseconds)
-  const twentyFourHoursAgoMs = Date.now() - 24 * 60 * 60 * 1000;
-  const twentyFourHoursAgoUs = twentyFourHoursAgoMs * 1000;
-  console.log(`[Firehose] No cursor found, starting from 24 hours ago`);
-  return twentyFourHoursAgoUs;
+  return source.defaultCursor();
 }
 
 /**
- * JetStream message format for post commits
+ * Build the frame source selected by the workflow input
  */
-interface JetStreamMessage {
-  did: string;
-  time_us: number;
-  kind: string;
-  commit?: {
-    rev: string;
-    operation: string;
-    collection: string;
-    rkey: string;
-    record?: {
-      $type: string;
-      text: string;
-      createdAt: string;
-      langs?: string[];
-    };
-    cid: string;
-  };
-}
-
-/**
- * Parse JetStream message and extract BlueskyPost
- */
-function parseJetStreamMessage(data: string): BlueskyPost | null {
-  try {
-    const msg: JetStreamMessage = JSON.parse(data);
-
-    if (
-      msg.kind !== "commit" ||
-      msg.commit?.operation !== "create" ||
-      msg.commit?.collection !== "app.bsky.feed.post" ||
-      !msg.commit?.record?.text
-    ) {
-      return null;
+function createSource(input: FirehoseInput): FirehoseSource {
+  if (input.source === "replay") {
+    if (!input.replayFile) {
+      throw new Error("replayFile is required when source is \"replay\"");
     }
+    return createReplaySource({
+      file: input.replayFile,
+      speed: input.replaySpeed ?? 1,
+      resume: input.replayResume ?? false,
+    });
+  }
 
-    const record = msg.commit.record;
-    const serverTimestamp = new Date(msg.time_us / 1000);
-
-    return {
-      postId: `at://${msg.did}/app.bsky.feed.post/${msg.commit.rkey}`,
-      text: record.text,
-      createdAt: serverTimestamp,
-      authorDid: msg.did,
-    };
-  } catch (error) {
-    console.error("[Firehose] Failed to parse message:", error);
-    return null;
+  if (input.source === "atproto") {
+    return createRepoFirehoseSource({
+      relayUrl: input.relayUrl ?? "wss://bsky.network",
+    });
   }
+
+  return createJetStreamSource({
+    endpoints: input.jetstreamEndpoints ?? DEFAULT_JETSTREAM_ENDPOINTS,
+  });
 }
 
 /**
@@ -119,161 +142,168 @@ function logStats() {
 }
 
 /**
- * Flush batch to Kafka
+ * Send a batch to Kafka, resolving once the streams have acknowledged it
  */
-async function flushBatch() {
-  if (batchTimer) {
-    clearTimeout(batchTimer);
-    batchTimer = null;
-  }
-
-  if (postBatch.length === 0) return;
-
-  const batch = postBatch;
-  postBatch = [];
-
-  try {
-    await BlueskyPostPipeline.stream!.send(batch);
-    postsProcessed += batch.length;
-  } catch (err) {
-    console.error("[Firehose] Failed to send batch:", err);
-  }
+async function sendBatch(batch: FrameRecords) {
+  await sendRecords(batch);
+  postsProcessed += batch.posts.length;
 }
 
 /**
- * Queue post for batched sending
+ * Handle a decoded frame from the source: track the cursor and queue records
  */
-function queuePost(post: BlueskyPost) {
-  postBatch.push(post);
+function processFrame(source: FirehoseSource, frame: SourceFrame) {
+  if (frame.cursor) {
+    currentCursor = frame.cursor;
+    messageCount++;
+    if (messageCount % 1000 === 0) {
+      saveCursor(source, batcher!.committedCursor());
+      logStats();
+    }
+  }
 
-  if (postBatch.length >= BATCH_SIZE) {
-    flushBatch();
-  } else if (!batchTimer) {
-    batchTimer = setTimeout(flushBatch, BATCH_INTERVAL_MS);
+  if (frame.cursor !== null) {
+    recorder?.markCursor(frame.cursor);
   }
+
+  batcher!.add(frame.cursor, frame);
 }
 
 /**
- * Connect to JetStream and process posts
+ * Stream frames from the source and process posts until it stops
  */
-async function connectAndProcess(cancellationSignal: AbortSignal): Promise<"disconnected" | "cancelled"> {
-  let url = JETSTREAM_BASE_URL;
-  if (currentCursor > 0) {
-    url += `&cursor=${currentCursor}`;
-    console.log(`[Firehose] Resuming from cursor: ${currentCursor}`);
+async function connectAndProcess(
+  source: FirehoseSource,
+  cancellationSignal: AbortSignal,
+): Promise<SourceOutcome> {
+  messageCount = 0;
+
+  const outcome = await source.run(
+    currentCursor,
+    (frame) => processFrame(source, frame),
+    cancellationSignal,
+    batcher!.flow,
+    // Capture every frame as received, even ones that fail to decode
+    (raw) => recorder?.write(raw),
+  );
+
+  // Wait until remaining records are acknowledged (or dropped) before checkpointing
+  await batcher!.drain();
+
+  const committedCursor = batcher!.committedCursor();
+  if (committedCursor > 0) {
+    await saveCursor(source, committedCursor);
+    console.log(`[Firehose] Saved cursor: ${committedCursor}`);
   }
 
-  return new Promise((resolve) => {
-    console.log("[Firehose] Connecting to JetStream...");
-
-    const ws = new WebSocket(url);
-    let messageCount = 0;
-    let wasCancelled = false;
+  return outcome;
+}
 
-    // Handle cancellation signal
-    const onCancelled = () => {
-      console.log("[Firehose] Cancellation received, closing connection...");
-      wasCancelled = true;
-      ws.close();
-    };
-    cancellationSignal.addEventListener("abort", onCancelled);
+/**
+ * Report reconnect state to Temporal heartbeats and the status API, so a
+ * workflow stuck behind an open circuit is visible rather than silent
+ */
+function reportRetryState(ctx: Context, retry: RetryPolicy) {
+  const state = retry.state();
+  ctx.heartbeat({ cursor: currentCursor, retry: state });
+  updateStatus({ retry: state });
+}
 
-    ws.on("open", () => {
-      console.log("[Firehose] Connected to JetStream");
-    });
+/**
+ * Reconnection loop - exits on cancellation or when the source runs dry
+ */
+async function ingestUntilStopped(
+  source: FirehoseSource,
+  ctx: Context,
+  cancellationSignal: AbortSignal,
+) {
+  const retry = createRetryPolicy();
+
+  // Heartbeat while connected too, not only between attempts
+  const heartbeat = setInterval(
+    () => reportRetryState(ctx, retry),
+    HEARTBEAT_INTERVAL_MS,
+  );
 
-    ws.on("message", (data: WebSocket.Data) => {
-      const message = data.toString();
+  try {
+    while (!cancellationSignal.aborted) {
+      retry.attempting();
+      reportRetryState(ctx, retry);
 
+      let outcome: SourceOutcome;
       try {
-        const rawMsg = JSON.parse(message);
-        if (rawMsg.time_us) {
-          currentCursor = rawMsg.time_us;
-          messageCount++;
-          if (messageCount % 1000 === 0) {
-            saveCursor(currentCursor);
-            logStats();
-          }
-        }
-      } catch {}
-
-      const post = parseJetStreamMessage(message);
-
-      if (post) {
-        queuePost(post);
+        outcome = await connectAndProcess(source, cancellationSignal);
+      } catch (error) {
+        console.error("[Firehose] Connection failed:", error);
+        outcome = { result: "disconnected", closeKind: "network", connectedMs: 0 };
       }
-    });
-
-    ws.on("error", (error) => {
-      console.error("[Firehose] WebSocket error:", error);
-    });
-
-    ws.on("close", async (code, reason) => {
-      console.log(`[Firehose] Connection closed: ${code} ${reason.toString()}`);
-      cancellationSignal.removeEventListener("abort", onCancelled);
 
-      // Flush remaining posts
-      await flushBatch();
+      if (outcome.result === "cancelled" || cancellationSignal.aborted) {
+        console.log("[Firehose] Activity cancelled, exiting...");
+        return;
+      }
 
-      if (currentCursor > 0) {
-        await saveCursor(currentCursor);
-        console.log(`[Firehose] Saved cursor: ${currentCursor}`);
+      if (outcome.result === "ended") {
+        console.log(`[Firehose] Source ${source.name} has no more data, exiting...`);
+        return;
       }
-      resolve(wasCancelled ? "cancelled" : "disconnected");
-    });
 
-    process.on("SIGINT", () => {
-      console.log("[Firehose] Shutting down...");
-      ws.close();
-    });
+      const { delayMs, reason } = retry.next(outcome);
+      console.log(
+        `[Firehose] ${reason}, reconnecting in ${(delayMs / 1000).toFixed(1)}s (circuit ${retry.state().breaker})`,
+      );
+      reportRetryState(ctx, retry);
+      await sleep(delayMs, cancellationSignal);
+    }
 
-    process.on("SIGTERM", () => {
-      console.log("[Firehose] Terminating...");
-      ws.close();
-    });
-  });
+    console.log("[Firehose] Activity cancelled, exiting...");
+  } finally {
+    clearInterval(heartbeat);
+  }
 }
 
 /**
  * Firehose ingestion task with automatic reconnection
  */
-export const firehoseTask = new Task<null, void>("firehose-ingest", {
-  run: async () => {
-    console.log("[Firehose] Starting Bluesky firehose ingestion...");
+export const firehoseTask = new Task<FirehoseInput, void>("firehose-ingest", {
+  run: async ({ input }) => {
+    const options = input ?? {};
+    const source = createSource(options);
+    console.log(`[Firehose] Starting Bluesky firehose ingestion from ${source.name}...`);
 
     // Get cancellation signal from Temporal activity context
     const ctx = Context.current();
     const cancellationSignal = ctx.cancellationSignal;
 
-    currentCursor = await loadCursor();
+    currentCursor = await loadCursor(source);
     console.log(`[Firehose] Starting from cursor: ${currentCursor}`);
+    updateStatus({ source: source.name, cursor: currentCursor });
+
+    batcher = createPostBatcher({
+      ...DEFAULT_BATCHING_OPTIONS,
+      send: sendBatch,
+      initialCursor: currentCursor,
+      onDrop: (delivery) => updateStatus({ delivery }),
+      onPressure: (_paused, delivery) => updateStatus({ delivery }),
+    });
 
-    // Reconnection loop - exits on cancellation
-    while (!cancellationSignal.aborted) {
-      try {
-        const result = await connectAndProcess(cancellationSignal);
-
-        if (result === "cancelled") {
-          console.log("[Firehose] Activity cancelled, exiting...");
-          return;
-        }
-
-        console.log("[Firehose] Reconnecting in 5 seconds...");
-        await new Promise((resolve) => setTimeout(resolve, 5000));
-      } catch (error) {
-        console.error("[Firehose] Connection failed:", error);
-
-        if (cancellationSignal.aborted) {
-          console.log("[Firehose] Activity cancelled during error recovery, exiting...");
-          return;
-        }
+    if (options.recordDir) {
+      recorder = createFrameRecorder({
+        name: source.name,
+        dir: options.recordDir,
+        maxFileBytes: options.recordMaxBytes ?? 64 * 1024 * 1024,
+        maxFileSeconds: options.recordMaxSeconds ?? 15 * 60,
+      });
+    }
 
-        console.log("[Firehose] Retrying in 10 seconds...");
-        await new Promise((resolve) => setTimeout(resolve, 10000));
+    try {
+      await ingestUntilStopped(source, ctx, cancellationSignal);
+    } finally {
+      if (recorder) {
+        await recorder.close();
+        recorder = null;
       }
     }
-
-    console.log("[Firehose] Activity cancelled, exiting...");
   },
   retries: 1,
   timeout: "24h",
@@ -0,0 +1,45 @@
+import { Task, Workflow } from "@514labs/moose-lib";
+import { refreshAccountFlags } from "../ingest/account-flags";
+
+/**
+ * Account flag refresh
+ *
+ * Rescores accounts from the last hour of posts every 10 minutes and writes
+ * the bot and spam flags the trends API filters by. Run it by hand with
+ * `moose workflow run account-flags`.
+ */
+
+export interface AccountFlagsResult {
+  /** Accounts with enough recent posts to score */
+  scored: number;
+  /** Accounts flagged after this refresh */
+  flagged: number;
+}
+
+/**
+ * Task scoring recent accounts and writing their flags
+ */
+export const accountFlagsTask = new Task<null, AccountFlagsResult>(
+  "refresh-account-flags",
+  {
+    run: async () => {
+      const result = await refreshAccountFlags();
+      console.log(
+        `[AccountFlags] Scored ${result.scored} accounts, ${result.flagged} flagged`,
+      );
+      return result;
+    },
+    retries: 2,
+    timeout: "5m",
+  },
+);
+
+/**
+ * Account flags workflow - refreshes bot and spam flags on a schedule
+ */
+export const accountFlagsWorkflow = new Workflow("account-flags", {
+  startingTask: accountFlagsTask,
+  schedule: "*/10 * * * *",
+  retries: 2,
+  timeout: "10m",
+});
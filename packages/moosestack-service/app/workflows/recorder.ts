@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+
+/**
+ * Raw frame recorder
+ *
+ * Captures every frame exactly as received into gzip-compressed JSONL files,
+ * rotated by size or age. Finished files are renamed to the cursor range they
+ * cover (`<source>-<firstCursor>-<lastCursor>.jsonl.gz`) and listed in
+ * `index.jsonl`, so a recording directory can be fed straight back into the
+ * replay source (JetStream) or the stand-in relay (repo firehose).
+ */
+
+export interface RecorderOptions {
+  /** Source name, used as the file name prefix */
+  name: string;
+  /** Directory recordings are written to (created if missing) */
+  dir: string;
+  /** Rotate once the compressed file reaches this size */
+  maxFileBytes: number;
+  /** Rotate once the file has been open this long */
+  maxFileSeconds: number;
+}
+
+export interface FrameRecorder {
+  /** Append a raw frame as received, before it is decoded */
+  write: (message: string) => void;
+  /** Note the cursor of the last written frame once it has been decoded */
+  markCursor: (cursor: number) => void;
+  /** Finish the current file and wait for all pending files to be written */
+  close: () => Promise<void>;
+}
+
+/** Summary of a finished recording, appended to index.jsonl */
+interface RecordingEntry {
+  file: string;
+  firstCursor: number | null;
+  lastCursor: number | null;
+  frames: number;
+  bytes: number;
+  openedAt: string;
+  closedAt: string;
+}
+
+interface OpenRecording {
+  tmpPath: string;
+  gzip: zlib.Gzip;
+  output: fs.WriteStream;
+  openedAt: Date;
+  firstCursor: number | null;
+  lastCursor: number | null;
+  frames: number;
+}
+
+export function createFrameRecorder(options: RecorderOptions): FrameRecorder {
+  fs.mkdirSync(options.dir, { recursive: true });
+
+  let current: OpenRecording | null = null;
+  const pending = new Set<Promise<void>>();
+
+  function open(): OpenRecording {
+    const openedAt = new Date();
+    const tmpPath = path.join(
+      options.dir,
+      `recording-${openedAt.getTime()}.jsonl.gz.partial`,
+    );
+    const gzip = zlib.createGzip();
+    const output = fs.createWriteStream(tmpPath);
+    gzip.pipe(output);
+    console.log(`[Recorder] Recording frames to ${tmpPath}`);
+    return {
+      tmpPath,
+      gzip,
+      output,
+      openedAt,
+      firstCursor: null,
+      lastCursor: null,
+      frames: 0,
+    };
+  }
+
+  async function finish(recording: OpenRecording): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      recording.output.on("finish", resolve);
+      recording.output.on("error", reject);
+      recording.gzip.end();
+    });
+
+    if (recording.frames === 0) {
+      await fs.promises.unlink(recording.tmpPath);
+      return;
+    }
+
+    const file = `${options.name}-${recording.firstCursor ?? "unknown"}-${recording.lastCursor ?? "unknown"}.jsonl.gz`;
+    await fs.promises.rename(recording.tmpPath, path.join(options.dir, file));
+
+    const entry: RecordingEntry = {
+      file,
+      firstCursor: recording.firstCursor,
+      lastCursor: recording.lastCursor,
+      frames: recording.frames,
+      bytes: recording.output.bytesWritten,
+      openedAt: recording.openedAt.toISOString(),
+      closedAt: new Date().toISOString(),
+    };
+    await fs.promises.appendFile(
+      path.join(options.dir, "index.jsonl"),
+      JSON.stringify(entry) + "\n",
+    );
+    console.log(
+      `[Recorder] Wrote ${file} (${entry.frames} frames, ${entry.bytes} bytes)`,
+    );
+  }
+
+  function rotate() {
+    if (!current) return;
+    const done = finish(current)
+      .catch((err) => console.error("[Recorder] Failed to finish recording:", err))
+      .finally(() => pending.delete(done));
+    pending.add(done);
+    current = null;
+  }
+
+  function isFull(recording: OpenRecording): boolean {
+    const ageSeconds = (Date.now() - recording.openedAt.getTime()) / 1000;
+    return (
+      recording.output.bytesWritten >= options.maxFileBytes ||
+      ageSeconds >= options.maxFileSeconds
+    );
+  }
+
+  return {
+    write: (message) => {
+      if (current && isFull(current)) {
+        rotate();
+      }
+      if (!current) {
+        current = open();
+      }
+
+      current.gzip.write(message + "\n");
+      current.frames++;
+    },
+    markCursor: (cursor) => {
+      if (!current) return;
+      if (current.firstCursor === null) current.firstCursor = cursor;
+      current.lastCursor = cursor;
+    },
+    close: async () => {
+      rotate();
+      await Promise.all(pending);
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { CloseKind, SourceOutcome } from "./sources/types";
+
+/**
+ * Reconnect policy for the firehose task
+ *
+ * - Exponential backoff with full jitter: the delay is uniform in
+ *   [0, min(maxDelay, baseDelay * 2^attempt)]
+ * - Clean closes reconnect quickly without growing the backoff
+ * - Rejected connections (auth/4xx-style codes) jump straight to the cap
+ * - A connection that stays up for `stableAfterMs` resets everything
+ * - After `breakerThreshold` consecutive immediate disconnects the circuit
+ *   opens and the next attempt waits `breakerCooldownMs`; that attempt is a
+ *   half-open probe that closes the circuit if it turns out stable
+ */
+
+export interface RetryPolicyOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  stableAfterMs: number;
+  /** Connections shorter than this count as immediate disconnects */
+  immediateDisconnectMs: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryPolicyOptions = {
+  baseDelayMs: 1_000,
+  maxDelayMs: 60_000,
+  stableAfterMs: 60_000,
+  immediateDisconnectMs: 10_000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 5 * 60_000,
+};
+
+export type BreakerState = "closed" | "open" | "half-open";
+
+export interface RetryState {
+  breaker: BreakerState;
+  attempt: number;
+  consecutiveImmediateDisconnects: number;
+  lastCloseKind: CloseKind | null;
+  /** When the next connection attempt is due, null while connected */
+  nextAttemptAt: string | null;
+}
+
+export interface RetryDecision {
+  delayMs: number;
+  reason: string;
+}
+
+export interface RetryPolicy {
+  /** Decide how long to wait after a disconnect */
+  next: (outcome: SourceOutcome) => RetryDecision;
+  /** Mark the wait as over and a new attempt as started */
+  attempting: () => void;
+  state: () => RetryState;
+}
+
+function fullJitter(ceilingMs: number): number {
+  return Math.round(Math.random() * ceilingMs);
+}
+
+export function createRetryPolicy(
+  options: RetryPolicyOptions = DEFAULT_RETRY_OPTIONS,
+): RetryPolicy {
+  let attempt = 0;
+  let immediateDisconnects = 0;
+  let breaker: BreakerState = "closed";
+  let lastCloseKind: CloseKind | null = null;
+  let nextAttemptAt: number | null = null;
+
+  function decide(outcome: SourceOutcome): RetryDecision {
+    const closeKind = outcome.closeKind ?? "network";
+    lastCloseKind = closeKind;
+
+    if (outcome.connectedMs >= options.stableAfterMs) {
+      attempt = 0;
+      immediateDisconnects = 0;
+      if (breaker !== "closed") {
+        console.log("[Firehose] Connection was stable, closing circuit breaker");
+      }
+      breaker = "closed";
+    } else if (outcome.connectedMs < options.immediateDisconnectMs) {
+      immediateDisconnects++;
+    }
+
+    if (breaker === "half-open" || immediateDisconnects >= options.breakerThreshold) {
+      breaker = "open";
+      return {
+        delayMs: options.breakerCooldownMs,
+        reason: `circuit open after ${immediateDisconnects} immediate disconnects`,
+      };
+    }
+
+    if (closeKind === "clean" && outcome.connectedMs >= options.immediateDisconnectMs) {
+      return {
+        delayMs: fullJitter(options.baseDelayMs),
+        reason: "clean close",
+      };
+    }
+
+    if (closeKind === "rejected") {
+      attempt++;
+      return {
+        delayMs: options.maxDelayMs,
+        reason: "connection rejected",
+      };
+    }
+
+    const ceiling = Math.min(
+      options.maxDelayMs,
+      options.baseDelayMs * Math.pow(2, attempt),
+    );
+    attempt++;
+    return {
+      delayMs: fullJitter(ceiling),
+      reason: `${closeKind} disconnect (attempt ${attempt})`,
+    };
+  }
+
+  return {
+    next: (outcome) => {
+      const decision = decide(outcome);
+      nextAttemptAt = Date.now() + decision.delayMs;
+      return decision;
+    },
+    attempting: () => {
+      nextAttemptAt = null;
+      if (breaker === "open") {
+        breaker = "half-open";
+      }
+    },
+    state: () => ({
+      breaker,
+      attempt,
+      consecutiveImmediateDisconnects: immediateDisconnects,
+      lastCloseKind,
+      nextAttemptAt:
+        nextAttemptAt === null ? null : new Date(nextAttemptAt).toISOString(),
+    }),
+  };
+}
@@ -0,0 +1,291 @@
+import WebSocket from "ws";
+import { Cid, decode, decodeAll } from "@atproto/lex-cbor";
+import { readCar } from "@atproto/repo";
+import { BlueskyPost } from "../../ingest/models";
+import { emptyRecords, FirehoseSource, SourceFrame } from "./types";
+import { classifyClose, followFlow } from "./websocket";
+import { PostRecord, postStructure, recordKeyTime } from "./records";
+
+// XRPC endpoint for the full repo event stream
+const SUBSCRIBE_REPOS_PATH = "/xrpc/com.atproto.sync.subscribeRepos";
+
+// Redis key for cursor persistence (relay `seq`, not time_us)
+const CURSOR_KEY = "bluesky:firehose:cursor:atproto";
+
+const POST_COLLECTION = "app.bsky.feed.post";
+const LIKE_COLLECTION = "app.bsky.feed.like";
+const REPOST_COLLECTION = "app.bsky.feed.repost";
+const CREATED_COLLECTIONS = [POST_COLLECTION, LIKE_COLLECTION, REPOST_COLLECTION];
+
+export interface RepoFirehoseOptions {
+  /** Relay base URL, e.g. wss://bsky.network or ws://localhost:8765 */
+  relayUrl: string;
+}
+
+/** Frame header: op 1 is a message of type `t`, op -1 is an error */
+interface FrameHeader {
+  op: number;
+  t?: string;
+}
+
+/** Body of a `#commit` message (only the fields we read) */
+interface CommitMessage {
+  seq: number;
+  repo: string;
+  time: string;
+  tooBig?: boolean;
+  blocks: Uint8Array;
+  ops: Array<{
+    action: "create" | "update" | "delete";
+    path: string;
+    /** Record CID; null for deletes */
+    cid: Cid | null;
+  }>;
+}
+
+/** Body of an op -1 error frame */
+interface ErrorMessage {
+  error?: string;
+  message?: string;
+}
+
+/** Minimal view of an app.bsky.feed.like or app.bsky.feed.repost record */
+interface EngagementRecord {
+  subject?: { uri: string; cid: unknown };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isFrameHeader(value: unknown): value is FrameHeader {
+  return isObject(value) && typeof value.op === "number";
+}
+
+/** Narrow a decoded `#commit` body to the fields read below */
+function isCommitMessage(value: unknown): value is CommitMessage {
+  return (
+    isObject(value) &&
+    typeof value.seq === "number" &&
+    typeof value.repo === "string" &&
+    typeof value.time === "string" &&
+    value.blocks instanceof Uint8Array &&
+    Array.isArray(value.ops)
+  );
+}
+
+/**
+ * Narrow a decoded app.bsky.feed.post record with text, checking the shape
+ * of the top-level fields postStructure reads
+ */
+function isPostRecord(value: unknown): value is PostRecord & { text: string } {
+  return (
+    isObject(value) &&
+    typeof value.text === "string" &&
+    (value.langs === undefined || Array.isArray(value.langs)) &&
+    (value.facets === undefined || Array.isArray(value.facets)) &&
+    (value.reply === undefined || isObject(value.reply)) &&
+    (value.embed === undefined || isObject(value.embed))
+  );
+}
+
+/** Narrow a decoded like or repost record to one with a subject URI */
+function isEngagementRecord(
+  value: unknown,
+): value is EngagementRecord & { subject: { uri: string } } {
+  return (
+    isObject(value) &&
+    isObject(value.subject) &&
+    typeof value.subject.uri === "string"
+  );
+}
+
+function collectionOf(path: string): string {
+  return path.slice(0, path.indexOf("/"));
+}
+
+/**
+ * Decode a binary subscribeRepos frame: a DAG-CBOR header followed by a
+ * DAG-CBOR body whose `blocks` field is a CAR file of the changed records
+ */
+export async function decodeRepoFrame(data: Buffer): Promise<SourceFrame> {
+  const frame: SourceFrame = { cursor: null, ...emptyRecords() };
+
+  const [header, body]: unknown[] = Array.from(decodeAll(data));
+  if (!isFrameHeader(header)) {
+    return frame;
+  }
+
+  if (header.op === -1) {
+    const error: ErrorMessage = isObject(body) ? body : {};
+    console.error(
+      `[Firehose] Relay error: ${error.error} ${error.message ?? ""}`,
+    );
+    return frame;
+  }
+
+  if (isObject(body) && typeof body.seq === "number") {
+    frame.cursor = body.seq;
+  }
+
+  if (header.t !== "#commit" || !isCommitMessage(body)) {
+    return frame;
+  }
+
+  const commit = body;
+  const version = Date.parse(commit.time) * 1000;
+
+  // Deletes only need the op path, so they are kept even for oversized commits
+  for (const op of commit.ops) {
+    if (op.action !== "delete" || !op.path.startsWith(`${POST_COLLECTION}/`)) {
+      continue;
+    }
+    const postId = `at://${commit.repo}/${op.path}`;
+    frame.deletions.push({
+      postId,
+      authorDid: commit.repo,
+      deletedAt: new Date(commit.time),
+      postCreatedAt: recordKeyTime(postId) ?? undefined,
+      version,
+    });
+  }
+
+  if (commit.tooBig) {
+    // Oversized commits omit their blocks; the records would need a repo fetch
+    return frame;
+  }
+
+  const creates = commit.ops.filter(
+    (op) =>
+      op.action === "create" && CREATED_COLLECTIONS.includes(collectionOf(op.path)),
+  );
+  if (creates.length === 0) {
+    return frame;
+  }
+
+  const { blocks } = await readCar(commit.blocks);
+  for (const op of creates) {
+    if (!op.cid) continue;
+    const bytes = blocks.get(op.cid);
+    if (!bytes) continue;
+
+    const uri = `at://${commit.repo}/${op.path}`;
+    const collection = collectionOf(op.path);
+
+    if (collection === POST_COLLECTION) {
+      const record: unknown = decode(bytes);
+      if (!isPostRecord(record) || !record.text) continue;
+
+      const post: BlueskyPost = {
+        postId: uri,
+        text: record.text,
+        createdAt: new Date(commit.time),
+        authorDid: commit.repo,
+        backfilled: false,
+        version,
+        deleted: 0,
+        ...postStructure(record),
+      };
+      frame.posts.push(post);
+      continue;
+    }
+
+    // Likes and reposts; skip likes of feeds and lists
+    const record: unknown = decode(bytes);
+    if (!isEngagementRecord(record)) continue;
+    const subjectUri = record.subject.uri;
+    if (!subjectUri.includes(`/${POST_COLLECTION}/`)) continue;
+
+    const engagement = {
+      subjectUri,
+      actorDid: commit.repo,
+      createdAt: new Date(commit.time),
+    };
+    if (collection === LIKE_COLLECTION) {
+      frame.likes.push({ likeUri: uri, ...engagement });
+    } else {
+      frame.reposts.push({ repostUri: uri, ...engagement });
+    }
+  }
+
+  return frame;
+}
+
+/**
+ * Live source reading the native AT Protocol repo firehose
+ * (com.atproto.sync.subscribeRepos) from a relay
+ */
+export function createRepoFirehoseSource({
+  relayUrl,
+}: RepoFirehoseOptions): FirehoseSource {
+  return {
+    name: "atproto",
+    cursorKey: CURSOR_KEY,
+    // No cursor: the relay starts from the live tail
+    defaultCursor: () => 0,
+    run: (cursor, onFrame, cancellationSignal, flow, onRaw) => {
+      let url = relayUrl.replace(/\/$/, "") + SUBSCRIBE_REPOS_PATH;
+      if (cursor > 0) {
+        url += `?cursor=${cursor}`;
+        console.log(`[Firehose] Resuming from seq: ${cursor}`);
+      }
+
+      return new Promise((resolve) => {
+        console.log(`[Firehose] Connecting to relay ${relayUrl}...`);
+
+        const ws = new WebSocket(url);
+        const unfollowFlow = followFlow(ws, flow);
+        let wasCancelled = false;
+        let openedAt: number | null = null;
+        let lastError: Error | null = null;
+
+        // CAR decoding is async; chain frames so they are delivered in order
+        let decoding: Promise<void> = Promise.resolve();
+
+        const onCancelled = () => {
+          console.log("[Firehose] Cancellation received, closing connection...");
+          wasCancelled = true;
+          ws.close();
+        };
+        cancellationSignal.addEventListener("abort", onCancelled);
+
+        ws.on("open", () => {
+          openedAt = Date.now();
+          console.log("[Firehose] Connected to relay");
+        });
+
+        ws.on("message", (data: WebSocket.Data) => {
+          const bytes = Array.isArray(data)
+            ? Buffer.concat(data)
+            : Buffer.from(data as Buffer);
+          decoding = decoding
+            .then(() => {
+              onRaw?.(bytes.toString("base64"));
+              return decodeRepoFrame(bytes);
+            })
+            .then(onFrame)
+            .catch((error) => {
+              console.error("[Firehose] Failed to decode frame:", error);
+            });
+        });
+
+        ws.on("error", (error) => {
+          console.error("[Firehose] WebSocket error:", error);
+          lastError = error;
+        });
+
+        ws.on("close", async (code, reason) => {
+          console.log(`[Firehose] Connection closed: ${code} ${reason.toString()}`);
+          unfollowFlow();
+          cancellationSignal.removeEventListener("abort", onCancelled);
+          await decoding;
+          resolve({
+            result: wasCancelled ? "cancelled" : "disconnected",
+            closeKind: classifyClose(code, lastError),
+            connectedMs: openedAt === null ? 0 : Date.now() - openedAt,
+          });
+        });
+      });
+    },
+  };
+}
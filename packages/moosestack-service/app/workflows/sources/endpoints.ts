@@ -0,0 +1,162 @@
+/**
+ * JetStream endpoint pool with rolling health scores
+ *
+ * Each endpoint is scored from three signals:
+ * - connect failures and disconnects, decaying with a 5 minute half-life
+ * - message rate, as an EWMA of per-sample throughput
+ * - lag between now and the newest frame's time_us, as an EWMA, sampled only
+ *   once a connection has caught up from its resume cursor, since replaying
+ *   an old cursor lags by design
+ *
+ * The score is the product of a reliability, throughput and freshness factor,
+ * each in [0, 1]. Endpoints that have not been measured yet count as healthy
+ * on the signals they lack, so a failing endpoint loses to an untried one.
+ */
+
+// Failure weight halves every 5 minutes
+const FAILURE_HALF_LIFE_MS = 5 * 60 * 1000;
+
+// JetStream posts, likes and reposts normally arrive well above this rate
+const EXPECTED_MESSAGES_PER_SECOND = 20;
+
+// Lag at or below this is considered fully fresh
+const FRESH_LAG_SECONDS = 60;
+
+// Smoothing factor for message rate and lag
+const EWMA_ALPHA = 0.3;
+
+export interface EndpointHealth {
+  url: string;
+  score: number;
+  /** Decayed failure count */
+  failures: number;
+  /** Smoothed messages per second, null until measured */
+  messageRate: number | null;
+  /** Smoothed lag in seconds, null until measured */
+  lagSeconds: number | null;
+  lastFailure: string | null;
+  lastFailureAt: string | null;
+}
+
+export interface EndpointPool {
+  /** The healthiest endpoint (list order breaks ties) */
+  pick: () => string;
+  recordFailure: (url: string, reason: string) => void;
+  /** `lagSeconds` is null while the connection is still catching up */
+  recordSample: (
+    url: string,
+    messageRate: number,
+    lagSeconds: number | null,
+  ) => void;
+  snapshot: () => EndpointHealth[];
+}
+
+interface EndpointState {
+  url: string;
+  failureTimes: number[];
+  messageRate: number | null;
+  lagSeconds: number | null;
+  lastFailure: string | null;
+  lastFailureAt: number | null;
+}
+
+function ewma(previous: number | null, sample: number): number {
+  return previous === null ? sample : previous + EWMA_ALPHA * (sample - previous);
+}
+
+function decayedFailures(state: EndpointState, now: number): number {
+  return state.failureTimes.reduce(
+    (sum, at) => sum + Math.pow(0.5, (now - at) / FAILURE_HALF_LIFE_MS),
+    0,
+  );
+}
+
+function scoreEndpoint(state: EndpointState, now: number): number {
+  const reliability = 1 / (1 + decayedFailures(state, now));
+  const throughput =
+    state.messageRate === null
+      ? 1
+      : Math.min(1, state.messageRate / EXPECTED_MESSAGES_PER_SECOND);
+  const freshness =
+    state.lagSeconds === null
+      ? 1
+      : Math.min(1, FRESH_LAG_SECONDS / Math.max(state.lagSeconds, 1));
+  return reliability * throughput * freshness;
+}
+
+export function createEndpointPool(urls: string[]): EndpointPool {
+  if (urls.length === 0) {
+    throw new Error("At least one JetStream endpoint is required");
+  }
+
+  const states = new Map<string, EndpointState>(
+    urls.map((url) => [
+      url,
+      {
+        url,
+        failureTimes: [],
+        messageRate: null,
+        lagSeconds: null,
+        lastFailure: null,
+        lastFailureAt: null,
+      },
+    ]),
+  );
+
+  function stateFor(url: string): EndpointState {
+    const state = states.get(url);
+    if (!state) throw new Error(`Unknown JetStream endpoint: ${url}`);
+    return state;
+  }
+
+  return {
+    pick: () => {
+      const now = Date.now();
+      let best = urls[0];
+      let bestScore = -1;
+      for (const url of urls) {
+        const score = scoreEndpoint(stateFor(url), now);
+        if (score > bestScore) {
+          best = url;
+          bestScore = score;
+        }
+      }
+      return best;
+    },
+    recordFailure: (url, reason) => {
+      const state = stateFor(url);
+      const now = Date.now();
+      // Drop failures that no longer carry meaningful weight
+      state.failureTimes = state.failureTimes
+        .filter((at) => now - at < FAILURE_HALF_LIFE_MS * 8)
+        .concat(now);
+      state.lastFailure = reason;
+      state.lastFailureAt = now;
+    },
+    recordSample: (url, messageRate, lagSeconds) => {
+      const state = stateFor(url);
+      state.messageRate = ewma(state.messageRate, messageRate);
+      if (lagSeconds !== null) {
+        state.lagSeconds = ewma(state.lagSeconds, lagSeconds);
+      }
+    },
+    snapshot: () => {
+      const now = Date.now();
+      return urls.map((url) => {
+        const state = stateFor(url);
+        return {
+          url,
+          score: Number(scoreEndpoint(state, now).toFixed(3)),
+          failures: Number(decayedFailures(state, now).toFixed(2)),
+          messageRate: state.messageRate,
+          lagSeconds: state.lagSeconds,
+          lastFailure: state.lastFailure,
+          lastFailureAt:
+            state.lastFailureAt === null
+              ? null
+              : new Date(state.lastFailureAt).toISOString(),
+        };
+      });
+    },
+  };
+}
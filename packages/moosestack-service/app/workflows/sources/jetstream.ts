@@ -0,0 +1,378 @@
+import WebSocket from "ws";
+import {
+  BlueskyPost,
+  PostDeletion,
+  PostLike,
+  PostRepost,
+} from "../../ingest/models";
+import { recordFailover, updateStatus } from "../status";
+import { createEndpointPool } from "./endpoints";
+import { emptyRecords, FirehoseSource, SourceFrame } from "./types";
+import { classifyClose, followFlow } from "./websocket";
+import { PostRecord, postStructure, recordKeyTime } from "./records";
+
+// Public JetStream instances for the Bluesky firehose (JSON format)
+export const DEFAULT_JETSTREAM_ENDPOINTS = [
+  "wss://jetstream2.us-east.bsky.network",
+  "wss://jetstream1.us-east.bsky.network",
+  "wss://jetstream1.us-west.bsky.network",
+  "wss://jetstream2.us-west.bsky.network",
+];
+
+const POST_COLLECTION = "app.bsky.feed.post";
+const LIKE_COLLECTION = "app.bsky.feed.like";
+const REPOST_COLLECTION = "app.bsky.feed.repost";
+
+const SUBSCRIBE_PATH =
+  "/subscribe?" +
+  [POST_COLLECTION, LIKE_COLLECTION, REPOST_COLLECTION]
+    .map((collection) => `wantedCollections=${collection}`)
+    .join("&");
+
+// Redis key for cursor persistence
+const CURSOR_KEY = "bluesky:firehose:cursor";
+
+// Health sampling while connected
+const HEALTH_CHECK_INTERVAL_MS = 10_000;
+
+// Fail over when nothing arrives for this long
+const STALL_TIMEOUT_MS = 30_000;
+
+// Fail over when lag exceeds this and keeps growing for several samples
+const MAX_LAG_SECONDS = 120;
+const FALLING_BEHIND_SAMPLES = 3;
+
+// Instances stamp time_us independently, so rewind a little when switching
+const FAILOVER_REWIND_US = 5 * 1_000_000;
+
+export interface JetStreamOptions {
+  /** JetStream base URLs, in order of preference */
+  endpoints: string[];
+  /**
+   * Publish endpoint health and failovers to the firehose status (default
+   * true). Backfills turn this off so they do not overwrite the live status.
+   */
+  publishStatus?: boolean;
+}
+
+/**
+ * JetStream message format for post, like and repost commits (deletes carry
+ * no record)
+ */
+interface JetStreamMessage {
+  did: string;
+  time_us: number;
+  kind: string;
+  commit?: {
+    rev: string;
+    operation: string;
+    collection: string;
+    rkey: string;
+    record?: PostRecord & {
+      $type: string;
+      /** Likes and reposts: the record engaged with */
+      subject?: { uri: string; cid: string };
+    };
+    cid?: string;
+  };
+}
+
+/**
+ * AT URI of the record a commit touches
+ */
+function recordUri(msg: JetStreamMessage): string {
+  return `at://${msg.did}/${msg.commit!.collection}/${msg.commit!.rkey}`;
+}
+
+/**
+ * Extract a BlueskyPost from a parsed JetStream message
+ */
+function toBlueskyPost(msg: JetStreamMessage): BlueskyPost | null {
+  if (
+    msg.kind !== "commit" ||
+    msg.commit?.operation !== "create" ||
+    msg.commit?.collection !== POST_COLLECTION ||
+    !msg.commit?.record?.text
+  ) {
+    return null;
+  }
+
+  const serverTimestamp = new Date(msg.time_us / 1000);
+
+  return {
+    postId: recordUri(msg),
+    text: msg.commit.record.text,
+    createdAt: serverTimestamp,
+    authorDid: msg.did,
+    backfilled: false,
+    version: msg.time_us,
+    deleted: 0,
+    ...postStructure(msg.commit.record),
+  };
+}
+
+/**
+ * Extract a PostDeletion from a parsed JetStream delete commit
+ */
+function toPostDeletion(msg: JetStreamMessage): PostDeletion | null {
+  if (
+    msg.kind !== "commit" ||
+    msg.commit?.operation !== "delete" ||
+    msg.commit?.collection !== POST_COLLECTION
+  ) {
+    return null;
+  }
+
+  const postId = recordUri(msg);
+  return {
+    postId,
+    authorDid: msg.did,
+    deletedAt: new Date(msg.time_us / 1000),
+    postCreatedAt: recordKeyTime(postId) ?? undefined,
+    version: msg.time_us,
+  };
+}
+
+/**
+ * URI of the post a like or repost create commit points at, null for other
+ * messages and for likes of non-posts (feeds, lists)
+ */
+function engagedPostUri(msg: JetStreamMessage, collection: string): string | null {
+  if (
+    msg.kind !== "commit" ||
+    msg.commit?.operation !== "create" ||
+    msg.commit?.collection !== collection
+  ) {
+    return null;
+  }
+
+  const subjectUri = msg.commit.record?.subject?.uri;
+  return subjectUri?.includes(`/${POST_COLLECTION}/`) ? subjectUri : null;
+}
+
+/**
+ * Extract a PostLike from a parsed JetStream message
+ */
+function toPostLike(msg: JetStreamMessage): PostLike | null {
+  const subjectUri = engagedPostUri(msg, LIKE_COLLECTION);
+  if (!subjectUri) return null;
+
+  return {
+    likeUri: recordUri(msg),
+    subjectUri,
+    actorDid: msg.did,
+    createdAt: new Date(msg.time_us / 1000),
+  };
+}
+
+/**
+ * Extract a PostRepost from a parsed JetStream message
+ */
+function toPostRepost(msg: JetStreamMessage): PostRepost | null {
+  const subjectUri = engagedPostUri(msg, REPOST_COLLECTION);
+  if (!subjectUri) return null;
+
+  return {
+    repostUri: recordUri(msg),
+    subjectUri,
+    actorDid: msg.did,
+    createdAt: new Date(msg.time_us / 1000),
+  };
+}
+
+/**
+ * Decode a raw JetStream frame (live or recorded)
+ */
+export function decodeJetStreamFrame(data: string): SourceFrame {
+  try {
+    const msg: JetStreamMessage = JSON.parse(data);
+    const post = toBlueskyPost(msg);
+    const deletion = toPostDeletion(msg);
+    const like = toPostLike(msg);
+    const repost = toPostRepost(msg);
+    return {
+      cursor: msg.time_us || null,
+      posts: post ? [post] : [],
+      deletions: deletion ? [deletion] : [],
+      likes: like ? [like] : [],
+      reposts: repost ? [repost] : [],
+    };
+  } catch (error) {
+    console.error("[Firehose] Failed to parse message:", error);
+    return { cursor: null, ...emptyRecords() };
+  }
+}
+
+/**
+ * Live source reading from the Bluesky JetStream WebSocket, failing over
+ * between endpoints based on their health scores
+ */
+export function createJetStreamSource({
+  endpoints,
+  publishStatus = true,
+}: JetStreamOptions): FirehoseSource {
+  const pool = createEndpointPool(endpoints);
+  let currentEndpoint: string | null = null;
+  let lastFailureReason: string | null = null;
+
+  return {
+    name: "jetstream",
+    cursorKey: CURSOR_KEY,
+    defaultCursor: () => {
+      // Default to 24 hours ago (JetStream cursor is in microseconds)
+      const twentyFourHoursAgoMs = Date.now() - 24 * 60 * 60 * 1000;
+      console.log(`[Firehose] No cursor found, starting from 24 hours ago`);
+      return twentyFourHoursAgoMs * 1000;
+    },
+    run: (cursor, onFrame, cancellationSignal, flow, onRaw) => {
+      const endpoint = pool.pick();
+      const switched = currentEndpoint !== null && endpoint !== currentEndpoint;
+
+      if (endpoint !== currentEndpoint) {
+        const reason = lastFailureReason ?? "initial selection";
+        console.log(
+          `[Firehose] Using endpoint ${endpoint} (previous: ${currentEndpoint ?? "none"}, reason: ${reason})`,
+        );
+        if (currentEndpoint !== null && publishStatus) {
+          recordFailover({ from: currentEndpoint, to: endpoint, reason });
+        }
+        currentEndpoint = endpoint;
+      }
+      if (publishStatus) {
+        updateStatus({ endpoint, endpoints: pool.snapshot() });
+      }
+
+      let url = endpoint + SUBSCRIBE_PATH;
+      if (cursor > 0) {
+        const resumeFrom = switched ? cursor - FAILOVER_REWIND_US : cursor;
+        url += `&cursor=${resumeFrom}`;
+        console.log(`[Firehose] Resuming from cursor: ${resumeFrom}`);
+      }
+
+      return new Promise((resolve) => {
+        console.log(`[Firehose] Connecting to JetStream at ${endpoint}...`);
+
+        const ws = new WebSocket(url);
+        const unfollowFlow = followFlow(ws, flow);
+        let wasCancelled = false;
+        let failureReason: string | null = null;
+
+        let lastError: Error | null = null;
+
+        // Health sampling state
+        let openedAt: number | null = null;
+        let messagesSinceSample = 0;
+        let lastSampleAt = Date.now();
+        let lastMessageAt = Date.now();
+        let lastTimeUs: number | null = null;
+        let previousLag: number | null = null;
+        let growingLagSamples = 0;
+        // Resuming from an old cursor lags by design; lag only counts
+        // against the endpoint once it stops shrinking
+        let caughtUp = false;
+
+        const failOver = (reason: string) => {
+          if (failureReason) return;
+          failureReason = reason;
+          console.warn(`[Firehose] Endpoint ${endpoint} unhealthy: ${reason}`);
+          ws.close();
+        };
+
+        const healthCheck = setInterval(() => {
+          if (openedAt === null) return;
+          const now = Date.now();
+          const rate = messagesSinceSample / ((now - lastSampleAt) / 1000);
+          messagesSinceSample = 0;
+          lastSampleAt = now;
+
+          // Silence is our own doing while paused, not the endpoint's
+          if (flow.isPaused()) {
+            lastMessageAt = now;
+            return;
+          }
+
+          if (now - lastMessageAt >= STALL_TIMEOUT_MS) {
+            failOver(`stalled: no messages for ${Math.round((now - lastMessageAt) / 1000)}s`);
+            return;
+          }
+
+          if (lastTimeUs === null) return;
+          const lag = Math.max(0, now / 1000 - lastTimeUs / 1_000_000);
+          if (previousLag !== null && lag >= previousLag) caughtUp = true;
+          pool.recordSample(endpoint, rate, caughtUp ? lag : null);
+          if (publishStatus) updateStatus({ endpoints: pool.snapshot() });
+
+          growingLagSamples =
+            lag > MAX_LAG_SECONDS && previousLag !== null && lag > previousLag
+              ? growingLagSamples + 1
+              : 0;
+          previousLag = lag;
+          if (growingLagSamples >= FALLING_BEHIND_SAMPLES) {
+            failOver(`falling behind: lag ${Math.round(lag)}s and growing`);
+          }
+        }, HEALTH_CHECK_INTERVAL_MS);
+
+        // Handle cancellation signal
+        const onCancelled = () => {
+          console.log("[Firehose] Cancellation received, closing connection...");
+          wasCancelled = true;
+          ws.close();
+        };
+        cancellationSignal.addEventListener("abort", onCancelled);
+
+        const onShutdown = (signal: NodeJS.Signals) => {
+          console.log(`[Firehose] ${signal} received, closing connection...`);
+          ws.close();
+        };
+        process.on("SIGINT", onShutdown);
+        process.on("SIGTERM", onShutdown);
+
+        ws.on("open", () => {
+          openedAt = Date.now();
+          lastMessageAt = Date.now();
+          lastSampleAt = Date.now();
+          console.log(`[Firehose] Connected to JetStream at ${endpoint}`);
+        });
+
+        ws.on("message", (data: WebSocket.Data) => {
+          const message = data.toString();
+          onRaw?.(message);
+          const frame = decodeJetStreamFrame(message);
+          messagesSinceSample++;
+          lastMessageAt = Date.now();
+          if (frame.cursor !== null) lastTimeUs = frame.cursor;
+          onFrame(frame);
+        });
+
+        ws.on("error", (error) => {
+          console.error("[Firehose] WebSocket error:", error);
+          lastError = error;
+          if (openedAt === null && !failureReason) {
+            failureReason = `connect failed: ${error.message}`;
+          }
+        });
+
+        ws.on("close", (code, reason) => {
+          console.log(`[Firehose] Connection closed: ${code} ${reason.toString()}`);
+          clearInterval(healthCheck);
+          unfollowFlow();
+          cancellationSignal.removeEventListener("abort", onCancelled);
+          process.off("SIGINT", onShutdown);
+          process.off("SIGTERM", onShutdown);
+
+          if (!wasCancelled) {
+            lastFailureReason = failureReason ?? `closed with code ${code}`;
+            pool.recordFailure(endpoint, lastFailureReason);
+            if (publishStatus) updateStatus({ endpoints: pool.snapshot() });
+          }
+
+          resolve({
+            result: wasCancelled ? "cancelled" : "disconnected",
+            closeKind: classifyClose(code, lastError),
+            connectedMs: openedAt === null ? 0 : Date.now() - openedAt,
+          });
+        });
+      });
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import { BlueskyPost, PostFacet } from "../../ingest/models";
+
+/**
+ * Shared view of app.bsky.feed.post records
+ *
+ * JetStream delivers records as JSON and the repo firehose as DAG-CBOR, but
+ * both follow the same lexicon, so the structure is read in one place.
+ */
+
+interface StrongRef {
+  uri: string;
+}
+
+/** Minimal view of an app.bsky.feed.post record */
+export interface PostRecord {
+  text?: string;
+  createdAt?: string;
+  langs?: string[];
+  reply?: { parent: StrongRef; root: StrongRef };
+  embed?: {
+    $type: string;
+    /** app.bsky.embed.record, or the record part of recordWithMedia */
+    record?: StrongRef & { record?: StrongRef };
+    /** app.bsky.embed.external */
+    external?: { uri: string };
+    /** app.bsky.embed.recordWithMedia */
+    media?: { $type: string; external?: { uri: string } };
+  };
+  facets?: Array<{
+    index: { byteStart: number; byteEnd: number };
+    features: Array<{ $type: string; uri?: string; did?: string; tag?: string }>;
+  }>;
+}
+
+/** Language, reply, quote, embed and facet fields of a BlueskyPost */
+export type PostStructure = Pick<
+  BlueskyPost,
+  | "langs"
+  | "replyParentUri"
+  | "replyRootUri"
+  | "quotedUri"
+  | "embedType"
+  | "externalUri"
+  | "facets"
+>;
+
+// Embed lexicon type to stored embed type
+const EMBED_TYPES: Record<string, string> = {
+  "app.bsky.embed.images": "images",
+  "app.bsky.embed.external": "external",
+  "app.bsky.embed.video": "video",
+  "app.bsky.embed.record": "record",
+};
+
+function embedTypeOf(embed: PostRecord["embed"]): string {
+  if (!embed) return "none";
+  // A quote with media is stored as its media; the quote is in quotedUri
+  const type = embed.media?.$type ?? embed.$type;
+  return EMBED_TYPES[type] ?? "other";
+}
+
+function quotedUriOf(embed: PostRecord["embed"]): string | undefined {
+  if (embed?.$type === "app.bsky.embed.record") {
+    return embed.record?.uri;
+  }
+  if (embed?.$type === "app.bsky.embed.recordWithMedia") {
+    return embed.record?.record?.uri;
+  }
+  return undefined;
+}
+
+function externalUriOf(embed: PostRecord["embed"]): string | undefined {
+  return embed?.external?.uri ?? embed?.media?.external?.uri;
+}
+
+/**
+ * Flatten facets to one entry per feature: a link URI, mentioned DID or tag
+ */
+function facetsOf(record: PostRecord): PostFacet[] {
+  const facets: PostFacet[] = [];
+  for (const facet of record.facets ?? []) {
+    for (const feature of facet.features ?? []) {
+      const value = feature.uri ?? feature.did ?? feature.tag;
+      if (value === undefined) continue;
+      facets.push({
+        byteStart: facet.index.byteStart,
+        byteEnd: facet.index.byteEnd,
+        type: feature.$type.replace("app.bsky.richtext.facet#", ""),
+        value,
+      });
+    }
+  }
+  return facets;
+}
+
+/**
+ * Read the languages and the reply, quote, embed and facet structure of a
+ * post record
+ */
+export function postStructure(record: PostRecord): PostStructure {
+  return {
+    langs: record.langs ?? [],
+    replyParentUri: record.reply?.parent?.uri,
+    replyRootUri: record.reply?.root?.uri,
+    quotedUri: quotedUriOf(record.embed),
+    embedType: embedTypeOf(record.embed),
+    externalUri: externalUriOf(record.embed),
+    facets: facetsOf(record),
+  };
+}
+
+// Alphabet of record keys that are TIDs (timestamp identifiers)
+const TID_ALPHABET = "234567abcdefghijklmnopqrstuvwxyz";
+const TID_PATTERN = /^[234567abcdefghij][234567abcdefghijklmnopqrstuvwxyz]{12}$/;
+
+/**
+ * Creation time encoded in the record key of an AT URI, or null when the key
+ * is not a TID. A TID holds microseconds since the epoch above a 10-bit
+ * clock id, so it is within moments of the time the record was created.
+ */
+export function recordKeyTime(uri: string): Date | null {
+  const rkey = uri.slice(uri.lastIndexOf("/") + 1);
+  if (!TID_PATTERN.test(rkey)) return null;
+
+  let value = 0n;
+  for (const char of rkey) {
+    value = (value << 5n) | BigInt(TID_ALPHABET.indexOf(char));
+  }
+  return new Date(Number(value >> 10n) / 1000);
+}
@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import zlib from "zlib";
+import { FirehoseSource, FlowControl } from "./types";
+import { decodeJetStreamFrame } from "./jetstream";
+import { sleep } from "../utils";
+
+export interface ReplayOptions {
+  /**
+   * JSONL file (optionally gzipped) with one raw JetStream frame per line,
+   * or a recording directory whose files are replayed in name order
+   */
+  file: string;
+  /**
+   * Playback speed relative to the recorded `time_us` spacing:
+   * 1 = real time, 10 = ten times faster, 0 = as fast as possible
+   */
+  speed: number;
+  /**
+   * Continue after the cursor saved by the last replay of this recording
+   * instead of starting from its first frame
+   */
+  resume: boolean;
+}
+
+/**
+ * Throw when the replay path is missing or unreadable, so the task fails
+ * with a clear error instead of retrying the failure as a disconnect
+ */
+function checkReadable(file: string) {
+  try {
+    fs.accessSync(file, fs.constants.R_OK);
+  } catch {
+    throw new Error(`Replay file ${file} does not exist or is not readable`);
+  }
+}
+
+/**
+ * Resolve the files to replay, expanding recording directories
+ */
+function listReplayFiles(file: string): string[] {
+  if (!fs.statSync(file).isDirectory()) {
+    return [file];
+  }
+
+  return fs
+    .readdirSync(file)
+    .filter((name) => name.endsWith(".jsonl") || name.endsWith(".jsonl.gz"))
+    .filter((name) => name !== "index.jsonl")
+    .sort()
+    .map((name) => path.join(file, name));
+}
+
+/**
+ * Read a replay file line by line, decompressing .gz files
+ */
+function readLines(file: string): readline.Interface {
+  const stream = fs.createReadStream(file);
+  return readline.createInterface({
+    input: file.endsWith(".gz") ? stream.pipe(zlib.createGunzip()) : stream,
+    crlfDelay: Infinity,
+  });
+}
+
+/**
+ * Wait until the consumer resumes the source or the replay is cancelled
+ */
+function waitForResume(flow: FlowControl, signal: AbortSignal): Promise<void> {
+  if (!flow.isPaused() || signal.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      unsubscribe();
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const unsubscribe = flow.onChange((paused) => {
+      if (!paused) done();
+    });
+    signal.addEventListener("abort", done);
+  });
+}
+
+/**
+ * Offline source replaying recorded JetStream frames from a local file
+ */
+export function createReplaySource({
+  file,
+  speed,
+  resume,
+}: ReplayOptions): FirehoseSource {
+  checkReadable(file);
+
+  return {
+    name: "replay",
+    // One cursor per recording path so replays never move the live cursor
+    // or each other's
+    cursorKey: `bluesky:firehose:cursor:replay:${path.resolve(file)}`,
+    defaultCursor: () => 0,
+    resume,
+    run: async (cursor, onFrame, cancellationSignal, flow, onRaw) => {
+      const pacing = speed > 0 ? `${speed}x` : "max speed";
+      console.log(`[Replay] Replaying ${file} at ${pacing}`);
+      if (cursor > 0) {
+        console.log(`[Replay] Skipping frames up to cursor: ${cursor}`);
+      }
+
+      // Wall clock and recorded time of the first replayed frame
+      const startedAt = Date.now();
+      let firstTimeUs: number | null = null;
+      let replayed = 0;
+
+      for (const replayFile of listReplayFiles(file)) {
+        if (cancellationSignal.aborted) break;
+        const lines = readLines(replayFile);
+
+        try {
+          for await (const line of lines) {
+            if (flow.isPaused()) await waitForResume(flow, cancellationSignal);
+            if (cancellationSignal.aborted) break;
+            if (!line.trim()) continue;
+
+            const frame = decodeJetStreamFrame(line);
+            const timeUs = frame.cursor;
+            if (timeUs !== null) {
+              if (timeUs <= cursor) continue;
+
+              if (speed > 0) {
+                if (firstTimeUs === null) firstTimeUs = timeUs;
+                const dueAt = startedAt + (timeUs - firstTimeUs) / 1000 / speed;
+                const wait = dueAt - Date.now();
+                if (wait > 0) await sleep(wait, cancellationSignal);
+                if (cancellationSignal.aborted) break;
+              }
+            }
+
+            onRaw?.(line);
+            onFrame(frame);
+            replayed++;
+          }
+        } finally {
+          lines.close();
+        }
+      }
+
+      if (cancellationSignal.aborted) {
+        console.log(`[Replay] Cancelled after ${replayed} frames`);
+        return { result: "cancelled", connectedMs: Date.now() - startedAt };
+      }
+
+      console.log(`[Replay] Finished ${file} (${replayed} frames)`);
+      return { result: "ended", connectedMs: Date.now() - startedAt };
+    },
+  };
+}
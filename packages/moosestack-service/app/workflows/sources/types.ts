@@ -0,0 +1,111 @@
+import {
+  BlueskyPost,
+  PostDeletion,
+  PostLike,
+  PostRepost,
+} from "../../ingest/models";
+
+/**
+ * Firehose source abstraction
+ *
+ * A source owns its wire format: it connects, decodes frames and hands the
+ * ingest task a uniform `SourceFrame`. The task owns batching and cursor
+ * persistence, so every source behaves the same from the pipeline's point
+ * of view.
+ */
+
+/** Why a source stopped delivering frames */
+export type SourceResult = "disconnected" | "cancelled" | "ended";
+
+/**
+ * How a connection ended: a normal close, a refusal that retrying soon will
+ * not fix (auth/4xx-style), or a network-level failure
+ */
+export type CloseKind = "clean" | "rejected" | "network";
+
+export interface SourceOutcome {
+  result: SourceResult;
+  /** Set when the result is "disconnected" */
+  closeKind?: CloseKind;
+  /** How long the connection stayed open, 0 if it never opened */
+  connectedMs: number;
+}
+
+/** Records decoded from frames, one array per destination stream */
+export interface FrameRecords {
+  /** Posts created */
+  posts: BlueskyPost[];
+  /** Posts deleted */
+  deletions: PostDeletion[];
+  /** Posts liked */
+  likes: PostLike[];
+  /** Posts reposted */
+  reposts: PostRepost[];
+}
+
+const RECORD_KINDS: (keyof FrameRecords)[] = [
+  "posts",
+  "deletions",
+  "likes",
+  "reposts",
+];
+
+export function emptyRecords(): FrameRecords {
+  return { posts: [], deletions: [], likes: [], reposts: [] };
+}
+
+/** Append every record in `from` to `into` */
+export function appendRecords(into: FrameRecords, from: FrameRecords) {
+  for (const kind of RECORD_KINDS) {
+    (into[kind] as unknown[]).push(...from[kind]);
+  }
+}
+
+export function countRecords(records: FrameRecords): number {
+  return RECORD_KINDS.reduce((sum, kind) => sum + records[kind].length, 0);
+}
+
+/** A decoded frame, in the order it was received */
+export interface SourceFrame extends FrameRecords {
+  /** Cursor position of this frame (time_us or seq), null if it carries none */
+  cursor: number | null;
+}
+
+/**
+ * Backpressure signal from the consumer. While paused, a source stops
+ * reading: WebSocket sources pause the socket, so TCP flow control slows the
+ * server down, and file sources wait before reading the next line.
+ */
+export interface FlowControl {
+  isPaused: () => boolean;
+  /** Listen for pause/resume changes; returns an unsubscribe function */
+  onChange: (listener: (paused: boolean) => void) => () => void;
+}
+
+export interface FirehoseSource {
+  /** Short name used in logs and recording file names */
+  name: string;
+  /** Redis key the cursor for this source is persisted under */
+  cursorKey: string;
+  /** Cursor to start from when nothing has been persisted yet */
+  defaultCursor: () => number;
+  /**
+   * Whether a run starts from the persisted cursor (default true); when
+   * false, every run starts from `defaultCursor` and the cursor is only saved
+   */
+  resume?: boolean;
+  /**
+   * Deliver frames newer than `cursor` until the source disconnects,
+   * runs out of data or `cancellationSignal` is aborted, holding off while
+   * `flow` is paused. `onRaw` gets each frame as received, as text (binary
+   * frames are base64-encoded), before anything can fail to decode it; the
+   * frame's own `onFrame` call, if any, comes before the next `onRaw`.
+   */
+  run: (
+    cursor: number,
+    onFrame: (frame: SourceFrame) => void,
+    cancellationSignal: AbortSignal,
+    flow: FlowControl,
+    onRaw?: (raw: string) => void,
+  ) => Promise<SourceOutcome>;
+}
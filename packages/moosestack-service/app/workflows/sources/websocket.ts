@@ -0,0 +1,41 @@
+import WebSocket from "ws";
+import { CloseKind, FlowControl } from "./types";
+
+// Close codes for a normal shutdown or a server going away (restart, deploy)
+const CLEAN_CLOSE_CODES = new Set([1000, 1001]);
+
+// Protocol, payload and policy violations: the server refused us
+const REJECTED_CLOSE_CODES = new Set([1002, 1003, 1007, 1008, 1009, 1010]);
+
+/**
+ * Classify how a WebSocket connection ended
+ *
+ * `error` is the last error seen on the socket. A failed handshake surfaces
+ * as "Unexpected server response: <status>", where 4xx means rejected.
+ */
+export function classifyClose(code: number, error: Error | null): CloseKind {
+  const handshake = error?.message.match(/Unexpected server response: (\d+)/);
+  if (handshake) {
+    const status = parseInt(handshake[1], 10);
+    return status >= 400 && status < 500 ? "rejected" : "network";
+  }
+
+  if (CLEAN_CLOSE_CODES.has(code)) return "clean";
+  // 4000-4999 are application-defined; relays use them to refuse clients
+  if (REJECTED_CLOSE_CODES.has(code) || (code >= 4000 && code < 5000)) {
+    return "rejected";
+  }
+  return "network";
+}
+
+/**
+ * Pause and resume a socket with the consumer's backpressure signal.
+ * Returns a function that stops following it.
+ */
+export function followFlow(ws: WebSocket, flow: FlowControl): () => void {
+  // Pausing is a no-op while connecting, so apply it once the socket opens
+  ws.on("open", () => {
+    if (flow.isPaused()) ws.pause();
+  });
+  return flow.onChange((paused) => (paused ? ws.pause() : ws.resume()));
+}
@@ -0,0 +1,75 @@
+import { MooseCache } from "@514labs/moose-lib";
+import { EndpointHealth } from "./sources/endpoints";
+import { RetryState } from "./retry";
+import { DeliveryStats } from "./batcher";
+
+/**
+ * Firehose status shared with the status API
+ *
+ * The workflow runs in the Temporal worker while the API runs in the web
+ * server, so the latest status is published to Redis under a single key.
+ */
+
+export const FIREHOSE_STATUS_KEY = "bluesky:firehose:status";
+
+// How many failovers to keep in the status history
+const MAX_FAILOVERS = 20;
+
+export interface FailoverEvent {
+  at: string;
+  from: string | null;
+  to: string;
+  reason: string;
+}
+
+export interface FirehoseStatus {
+  updatedAt: string;
+  source: string | null;
+  cursor: number | null;
+  /** Endpoint currently in use (JetStream only) */
+  endpoint: string | null;
+  endpoints: EndpointHealth[];
+  failovers: FailoverEvent[];
+  /** Reconnect backoff and circuit breaker state */
+  retry: RetryState | null;
+  /** Committed cursor, retry queue depth and drop counters */
+  delivery: DeliveryStats | null;
+}
+
+let status: FirehoseStatus = {
+  updatedAt: new Date().toISOString(),
+  source: null,
+  cursor: null,
+  endpoint: null,
+  endpoints: [],
+  failovers: [],
+  retry: null,
+  delivery: null,
+};
+
+async function publishStatus() {
+  try {
+    const cache = await MooseCache.get();
+    await cache.set(FIREHOSE_STATUS_KEY, status, 60 * 60 * 24); // 1 day TTL
+  } catch (err) {
+    console.error("[Firehose] Failed to publish status:", err);
+  }
+}
+
+/**
+ * Merge fields into the current status and publish it
+ */
+export function updateStatus(patch: Partial<FirehoseStatus>) {
+  status = { ...status, ...patch, updatedAt: new Date().toISOString() };
+  publishStatus();
+}
+
+/**
+ * Record a switch between endpoints and publish it
+ */
+export function recordFailover(event: Omit<FailoverEvent, "at">) {
+  const failover = { at: new Date().toISOString(), ...event };
+  updateStatus({
+    failovers: [failover, ...status.failovers].slice(0, MAX_FAILOVERS),
+  });
+}
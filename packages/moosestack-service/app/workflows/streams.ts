@@ -0,0 +1,29 @@
+import {
+  BlueskyPostPipeline,
+  PostDeletionPipeline,
+  PostLikePipeline,
+  PostRepostPipeline,
+} from "../ingest/models";
+import { FrameRecords } from "./sources/types";
+
+/**
+ * Send a batch of records to their streams, resolving once every stream has
+ * acknowledged its share. A rejection means the whole batch is retried, which
+ * is safe because every stream is deduplicated downstream.
+ */
+export async function sendRecords(records: FrameRecords) {
+  const sends: Promise<void>[] = [];
+  if (records.posts.length > 0) {
+    sends.push(BlueskyPostPipeline.stream!.send(records.posts));
+  }
+  if (records.deletions.length > 0) {
+    sends.push(PostDeletionPipeline.stream!.send(records.deletions));
+  }
+  if (records.likes.length > 0) {
+    sends.push(PostLikePipeline.stream!.send(records.likes));
+  }
+  if (records.reposts.length > 0) {
+    sends.push(PostRepostPipeline.stream!.send(records.reposts));
+  }
+  await Promise.all(sends);
+}
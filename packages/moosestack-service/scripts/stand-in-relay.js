@@ -0,0 +1,77 @@
+/**
+ * Stand-in relay for the atproto firehose source
+ *
+ * Serves recorded com.atproto.sync.subscribeRepos frames (base64 lines, as
+ * written by the firehose record mode) over a local WebSocket, honouring the
+ * `cursor` query parameter, so the repo firehose can be exercised offline.
+ *
+ * Usage:
+ *   node scripts/stand-in-relay.js <recording file or directory> [port]
+ *
+ * Then run the workflow against it:
+ *   moose-cli workflow run firehose --input '{"source": "atproto", "relayUrl": "ws://localhost:8765"}'
+ */
+
+const fs = require("fs");
+const path = require("path");
+const zlib = require("zlib");
+const { WebSocketServer } = require("ws");
+const { decodeAll } = require("@atproto/lex-cbor");
+
+const SUBSCRIBE_REPOS_PATH = "/xrpc/com.atproto.sync.subscribeRepos";
+
+const [recording, portArg] = process.argv.slice(2);
+if (!recording) {
+  console.error("Usage: node scripts/stand-in-relay.js <recording> [port]");
+  process.exit(1);
+}
+const port = parseInt(portArg || "8765", 10);
+
+function listFiles(target) {
+  if (!fs.statSync(target).isDirectory()) return [target];
+  return fs
+    .readdirSync(target)
+    .filter((name) => name.endsWith(".jsonl") || name.endsWith(".jsonl.gz"))
+    .filter((name) => name !== "index.jsonl")
+    .sort()
+    .map((name) => path.join(target, name));
+}
+
+function loadFrames(target) {
+  const frames = [];
+  for (const file of listFiles(target)) {
+    let content = fs.readFileSync(file);
+    if (file.endsWith(".gz")) content = zlib.gunzipSync(content);
+    for (const line of content.toString().split("\n")) {
+      if (!line.trim()) continue;
+      const bytes = Buffer.from(line, "base64");
+      const [, body] = Array.from(decodeAll(bytes));
+      frames.push({ seq: body && typeof body.seq === "number" ? body.seq : null, bytes });
+    }
+  }
+  return frames;
+}
+
+const frames = loadFrames(recording);
+console.log(`[Relay] Loaded ${frames.length} frames from ${recording}`);
+
+const server = new WebSocketServer({ port });
+
+server.on("connection", (ws, req) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  if (url.pathname !== SUBSCRIBE_REPOS_PATH) {
+    ws.close(1008, "unsupported endpoint");
+    return;
+  }
+
+  const cursor = parseInt(url.searchParams.get("cursor") || "0", 10);
+  const pending = frames.filter((frame) => frame.seq === null || frame.seq > cursor);
+  console.log(`[Relay] Client connected (cursor ${cursor}), sending ${pending.length} frames`);
+
+  // Like a live relay, stay connected and idle once the backlog is sent
+  for (const frame of pending) {
+    ws.send(frame.bytes);
+  }
+});
+
+console.log(`[Relay] Listening on ws://localhost:${port}${SUBSCRIBE_REPOS_PATH}`);
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AccountActivity,
+  FLAG_THRESHOLD,
+  scoreActivity,
+} from "../app/ingest/account-scoring";
+
+function activity(signals: Partial<AccountActivity>): AccountActivity {
+  return {
+    authorDid: "did:plc:test",
+    posts: 20,
+    peakPostsPerMinute: 1,
+    duplicateShare: 0,
+    linkOnlyShare: 0,
+    ...signals,
+  };
+}
+
+describe("scoreActivity", () => {
+  it("does not flag an ordinary account", () => {
+    assert.deepEqual(scoreActivity(activity({})), { score: 0, reasons: [] });
+  });
+
+  it("flags an account on one strong signal", () => {
+    const { score, reasons } = scoreActivity(activity({ peakPostsPerMinute: 15 }));
+    assert.equal(score, 1);
+    assert.deepEqual(reasons, ["rate"]);
+  });
+
+  it("adds up weaker signals", () => {
+    // Rate and duplicates are halfway between their bounds
+    const two = scoreActivity(
+      activity({ peakPostsPerMinute: 9, duplicateShare: 0.55 }),
+    );
+    assert.equal(two.score, 0.75);
+    assert.ok(two.score < FLAG_THRESHOLD);
+
+    const three = scoreActivity(
+      activity({ peakPostsPerMinute: 9, duplicateShare: 0.55, linkOnlyShare: 0.75 }),
+    );
+    assert.equal(three.score, 0.906);
+    assert.ok(three.score >= FLAG_THRESHOLD);
+    assert.deepEqual(three.reasons, ["rate", "duplicates", "links"]);
+  });
+
+  it("lists only signals at or above half strength as reasons", () => {
+    const { reasons } = scoreActivity(
+      activity({ peakPostsPerMinute: 6, linkOnlyShare: 0.9 }),
+    );
+    assert.deepEqual(reasons, ["links"]);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createPostBatcher,
+  DEFAULT_BATCHING_OPTIONS,
+  PostBatcherOptions,
+} from "../app/workflows/batcher";
+import { emptyRecords, FrameRecords } from "../app/workflows/sources/types";
+
+/** A send that settles when the test says so */
+interface PendingSend {
+  records: FrameRecords;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+function controlledSend() {
+  const sends: PendingSend[] = [];
+  const send = (records: FrameRecords) =>
+    new Promise<void>((resolve, reject) => {
+      sends.push({ records, resolve, reject });
+    });
+  return { sends, send };
+}
+
+/** Frame records holding `count` likes */
+function likes(count: number): FrameRecords {
+  const records = emptyRecords();
+  for (let i = 0; i < count; i++) {
+    records.likes.push({
+      likeUri: `at://did:plc:test/app.bsky.feed.like/${i}`,
+      subjectUri: "at://did:plc:test/app.bsky.feed.post/1",
+      actorDid: "did:plc:test",
+      createdAt: new Date(0),
+    });
+  }
+  return records;
+}
+
+/** Let settled sends run their continuations */
+function settled(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+function batcherWith(options: Partial<PostBatcherOptions>) {
+  return createPostBatcher({
+    ...DEFAULT_BATCHING_OPTIONS,
+    // One batch per frame, and no timer-driven flushes
+    batchSize: 1,
+    batchIntervalMs: 60_000,
+    send: async () => {},
+    initialCursor: 5,
+    ...options,
+  });
+}
+
+describe("createPostBatcher", () => {
+  it("does not commit past a batch that is still unacknowledged", async () => {
+    const { sends, send } = controlledSend();
+    const batcher = batcherWith({ send });
+
+    batcher.add(10, likes(1));
+    batcher.add(20, likes(1));
+    assert.equal(sends.length, 2);
+
+    sends[1].resolve();
+    await settled();
+    assert.equal(batcher.committedCursor(), 5);
+
+    sends[0].resolve();
+    await settled();
+    assert.equal(batcher.committedCursor(), 20);
+  });
+
+  it("moves the cursor for frames without records only behind earlier batches", async () => {
+    const { sends, send } = controlledSend();
+    const batcher = batcherWith({ send });
+
+    batcher.add(10, likes(1));
+    batcher.add(30, emptyRecords());
+    batcher.flush();
+    assert.equal(batcher.committedCursor(), 5);
+
+    sends[0].resolve();
+    await batcher.drain();
+    assert.equal(batcher.committedCursor(), 30);
+  });
+
+  it("drops a failed batch when the retry queue is full and moves on", async () => {
+    const drops: number[] = [];
+    const batcher = batcherWith({
+      send: async () => {
+        throw new Error("stream unavailable");
+      },
+      maxRetryQueue: 0,
+      maxSendAttempts: 3,
+      onDrop: (stats) => drops.push(stats.droppedRecords),
+    });
+
+    batcher.add(10, likes(2));
+    await batcher.drain();
+
+    const stats = batcher.stats();
+    assert.equal(stats.droppedBatches, 1);
+    assert.equal(stats.droppedRecords, 2);
+    assert.equal(stats.retryQueueDepth, 0);
+    assert.equal(stats.queuedRecords, 0);
+    assert.deepEqual(drops, [2]);
+    assert.equal(batcher.committedCursor(), 10);
+  });
+
+  it("retries a failed batch with backoff until it is acknowledged", async () => {
+    let attempts = 0;
+    const batcher = batcherWith({
+      send: async () => {
+        attempts++;
+        if (attempts === 1) throw new Error("timeout");
+      },
+      maxSendAttempts: 2,
+    });
+
+    batcher.add(10, likes(1));
+    await settled();
+    assert.equal(batcher.stats().retryQueueDepth, 1);
+
+    await batcher.drain();
+    assert.equal(attempts, 2);
+    assert.equal(batcher.stats().droppedBatches, 0);
+    assert.equal(batcher.stats().sentRecords, 1);
+    assert.equal(batcher.committedCursor(), 10);
+  });
+
+  it("pauses at the high watermark and resumes at the low watermark", async () => {
+    const { sends, send } = controlledSend();
+    const changes: boolean[] = [];
+    const batcher = batcherWith({
+      send,
+      batchSize: 2,
+      highWatermark: 4,
+      lowWatermark: 1,
+    });
+    batcher.flow.onChange((paused) => changes.push(paused));
+
+    batcher.add(10, likes(2));
+    assert.equal(batcher.flow.isPaused(), false);
+    batcher.add(20, likes(2));
+    assert.equal(batcher.flow.isPaused(), true);
+
+    // Two records are still queued, above the low watermark
+    sends[0].resolve();
+    await settled();
+    assert.equal(batcher.flow.isPaused(), true);
+
+    sends[1].resolve();
+    await settled();
+    assert.equal(batcher.flow.isPaused(), false);
+    assert.deepEqual(changes, [true, false]);
+    assert.equal(batcher.stats().pauses, 1);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createEndpointPool } from "../app/workflows/sources/endpoints";
+
+const PRIMARY = "wss://primary.example";
+const SECONDARY = "wss://secondary.example";
+
+function scoreOf(pool: ReturnType<typeof createEndpointPool>, url: string) {
+  return pool.snapshot().find((health) => health.url === url)!.score;
+}
+
+describe("createEndpointPool", () => {
+  it("requires at least one endpoint", () => {
+    assert.throws(() => createEndpointPool([]));
+  });
+
+  it("prefers endpoints in list order while they are equally healthy", () => {
+    const pool = createEndpointPool([PRIMARY, SECONDARY]);
+    assert.equal(pool.pick(), PRIMARY);
+    assert.equal(scoreOf(pool, PRIMARY), 1);
+  });
+
+  it("moves away from an endpoint that failed", () => {
+    const pool = createEndpointPool([PRIMARY, SECONDARY]);
+    pool.recordFailure(PRIMARY, "closed with code 1006");
+    assert.equal(scoreOf(pool, PRIMARY), 0.5);
+    assert.equal(pool.pick(), SECONDARY);
+  });
+
+  it("scores throughput below the expected message rate", () => {
+    const pool = createEndpointPool([PRIMARY, SECONDARY]);
+    pool.recordSample(PRIMARY, 10, 0);
+    assert.equal(scoreOf(pool, PRIMARY), 0.5);
+    assert.equal(pool.pick(), SECONDARY);
+  });
+
+  it("scores lag beyond a minute as stale", () => {
+    const pool = createEndpointPool([PRIMARY, SECONDARY]);
+    pool.recordSample(PRIMARY, 100, 600);
+    assert.equal(scoreOf(pool, PRIMARY), 0.1);
+    assert.equal(pool.pick(), SECONDARY);
+  });
+
+  it("does not count lag while a connection is catching up", () => {
+    const pool = createEndpointPool([PRIMARY, SECONDARY]);
+    pool.recordSample(PRIMARY, 100, null);
+    assert.equal(scoreOf(pool, PRIMARY), 1);
+    assert.equal(pool.snapshot()[0].lagSeconds, null);
+    assert.equal(pool.pick(), PRIMARY);
+  });
+});
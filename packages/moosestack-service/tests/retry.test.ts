@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createRetryPolicy, RetryPolicyOptions } from "../app/workflows/retry";
+
+const OPTIONS: RetryPolicyOptions = {
+  baseDelayMs: 1_000,
+  maxDelayMs: 8_000,
+  stableAfterMs: 60_000,
+  immediateDisconnectMs: 10_000,
+  breakerThreshold: 3,
+  breakerCooldownMs: 300_000,
+};
+
+// Long enough not to count as immediate, too short to count as stable
+const BRIEF_MS = 20_000;
+
+describe("createRetryPolicy", () => {
+  beforeEach(() => {
+    // Full jitter picks the top of the range, so delays are the ceilings
+    mock.method(Math, "random", () => 1);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("backs off exponentially up to the cap", () => {
+    const retry = createRetryPolicy(OPTIONS);
+    const delays = [1, 2, 3, 4, 5].map(
+      () =>
+        retry.next({
+          result: "disconnected",
+          closeKind: "network",
+          connectedMs: BRIEF_MS,
+        }).delayMs,
+    );
+    assert.deepEqual(delays, [1_000, 2_000, 4_000, 8_000, 8_000]);
+  });
+
+  it("waits the cap after a rejected connection", () => {
+    const retry = createRetryPolicy(OPTIONS);
+    const decision = retry.next({
+      result: "disconnected",
+      closeKind: "rejected",
+      connectedMs: BRIEF_MS,
+    });
+    assert.equal(decision.delayMs, OPTIONS.maxDelayMs);
+  });
+
+  it("reconnects quickly after a clean close without growing the backoff", () => {
+    const retry = createRetryPolicy(OPTIONS);
+    for (let i = 0; i < 3; i++) {
+      const decision = retry.next({
+        result: "disconnected",
+        closeKind: "clean",
+        connectedMs: BRIEF_MS,
+      });
+      assert.equal(decision.delayMs, OPTIONS.baseDelayMs);
+    }
+    assert.equal(retry.state().attempt, 0);
+  });
+
+  it("resets the backoff after a stable connection", () => {
+    const retry = createRetryPolicy(OPTIONS);
+    const brief = {
+      result: "disconnected",
+      closeKind: "network",
+      connectedMs: BRIEF_MS,
+    } as const;
+    retry.next(brief);
+    retry.next(brief);
+    assert.equal(retry.state().attempt, 2);
+
+    const stable = retry.next({ ...brief, connectedMs: OPTIONS.stableAfterMs });
+    assert.equal(stable.delayMs, OPTIONS.baseDelayMs);
+    assert.equal(retry.next(brief).delayMs, OPTIONS.baseDelayMs * 2);
+  });
+
+  it("opens, probes and closes the circuit breaker", () => {
+    const retry = createRetryPolicy(OPTIONS);
+    const immediate = {
+      result: "disconnected",
+      closeKind: "network",
+      connectedMs: 0,
+    } as const;
+
+    retry.next(immediate);
+    retry.next(immediate);
+    assert.equal(retry.state().breaker, "closed");
+    assert.equal(retry.next(immediate).delayMs, OPTIONS.breakerCooldownMs);
+    assert.equal(retry.state().breaker, "open");
+
+    // The attempt after the cooldown is a probe; failing it reopens the circuit
+    retry.attempting();
+    assert.equal(retry.state().breaker, "half-open");
+    assert.equal(
+      retry.next({ ...immediate, connectedMs: BRIEF_MS }).delayMs,
+      OPTIONS.breakerCooldownMs,
+    );
+    assert.equal(retry.state().breaker, "open");
+
+    // A probe that stays up closes it and clears the disconnect count
+    retry.attempting();
+    retry.next({ ...immediate, connectedMs: OPTIONS.stableAfterMs });
+    assert.equal(retry.state().breaker, "closed");
+    assert.equal(retry.state().consecutiveImmediateDisconnects, 0);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { stem } from "../app/ingest/stemmer";
+
+// Words and their Snowball stems, per language subtag
+const STEMS: Record<string, Array<[string, string]>> = {
+  en: [
+    ["votes", "vote"],
+    ["voted", "vote"],
+    ["voting", "vote"],
+    ["generously", "generous"],
+  ],
+  es: [
+    ["votaciones", "votacion"],
+    ["votación", "votacion"],
+    ["haciéndola", "hac"],
+    ["rápidamente", "rapid"],
+    ["averiguen", "averig"],
+  ],
+  pt: [
+    ["brasileira", "brasileir"],
+    ["brasileiro", "brasileir"],
+    ["felicidade", "felic"],
+    ["correndo", "corr"],
+    ["eleições", "eleiçõ"],
+  ],
+  de: [
+    ["laufen", "lauf"],
+    ["häuser", "haus"],
+    ["städte", "stadt"],
+    ["möglichkeit", "moglich"],
+    ["kenntnisse", "kenntnis"],
+  ],
+};
+
+describe("stem", () => {
+  for (const [lang, pairs] of Object.entries(STEMS)) {
+    it(`stems ${lang} words`, () => {
+      for (const [word, expected] of pairs) {
+        assert.equal(stem(word, lang), expected, word);
+      }
+    });
+  }
+
+  it("keeps words of languages without a stemmer", () => {
+    assert.equal(stem("votazioni", "it"), "votazioni");
+  });
+});
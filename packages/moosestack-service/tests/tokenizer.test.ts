@@ -0,0 +1,37 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { extractEmoji, tokenize } from "../app/ingest/tokenizer";
+
+/**
+ * Tokenizer fixture: the words (and optionally emoji) expected from a post's
+ * text, with FOLD_DIACRITICS on or off
+ */
+interface TokenizerFixture {
+  name: string;
+  input: string;
+  tokens: string[];
+  emoji?: string[];
+  foldDiacritics?: boolean;
+}
+
+const fixtures: TokenizerFixture[] = JSON.parse(
+  readFileSync(path.join(__dirname, "fixtures", "tokenizer.json"), "utf8"),
+);
+
+describe("tokenize", () => {
+  afterEach(() => {
+    delete process.env.FOLD_DIACRITICS;
+  });
+
+  for (const fixture of fixtures) {
+    it(fixture.name, () => {
+      if (fixture.foldDiacritics) process.env.FOLD_DIACRITICS = "true";
+      assert.deepEqual(tokenize(fixture.input), fixture.tokens);
+      if (fixture.emoji) {
+        assert.deepEqual(extractEmoji(fixture.input), fixture.emoji);
+      }
+    });
+  }
+});
@@ -8,20 +8,46 @@ import { SearchForm } from "@/components/dashboard/search-form";
 import { TimeRangeSelector } from "@/components/dashboard/time-range-selector";
 import { WordLengthFilter } from "@/components/dashboard/word-length-filter";
 import { CompareTags } from "@/components/dashboard/compare-tags";
+import { TrendTabs, type TrendKind } from "@/components/dashboard/trend-tabs";
+import { EmojiPanel } from "@/components/dashboard/emoji-panel";
 
 interface ChartDataPoint {
   time: string;
   [word: string]: string | number;
 }
 
+// Search and compare endpoints, with the query parameter each one takes
+const TREND_ENDPOINTS: Record<
+  TrendKind,
+  { search: string; searchParam: string; compare: string; compareParam: string }
+> = {
+  words: {
+    search: "/api/trends/search",
+    searchParam: "word",
+    compare: "/api/trends/compare",
+    compareParam: "words",
+  },
+  hashtags: {
+    search: "/api/trends/hashtags/search",
+    searchParam: "hashtag",
+    compare: "/api/trends/hashtags/compare",
+    compareParam: "hashtags",
+  },
+};
+
 export default function Home() {
+  const [kind, setKind] = useState<TrendKind>("words");
   const [words, setWords] = useState<string[]>([]);
   const [timeRange, setTimeRange] = useState(60); // minutes
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
   const [loading, setLoading] = useState(false);
   const [minLength, setMinLength] = useState<number | null>(3);
 
-  const fetchChartData = useCallback(async (activeWords: string[], minutes: number) => {
+  const fetchChartData = useCallback(async (
+    activeWords: string[],
+    minutes: number,
+    activeKind: TrendKind,
+  ) => {
     if (activeWords.length === 0) {
       setChartData([]);
       return;
@@ -31,10 +57,11 @@ export default function Home() {
     try {
       const now = new Date();
       const from = new Date(now.getTime() - minutes * 60 * 1000);
+      const endpoints = TREND_ENDPOINTS[activeKind];
 
       if (activeWords.length === 1) {
         const res = await fetch(
-          `/api/trends/search?word=${encodeURIComponent(activeWords[0])}&from=${from.toISOString()}&to=${now.toISOString()}`,
+          `${endpoints.search}?${endpoints.searchParam}=${encodeURIComponent(activeWords[0])}&from=${from.toISOString()}&to=${now.toISOString()}`,
         );
         const json = await res.json();
         if (json.success && json.data) {
@@ -47,7 +74,7 @@ export default function Home() {
         }
       } else {
         const res = await fetch(
-          `/api/trends/compare?words=${activeWords.map(encodeURIComponent).join(",")}&from=${from.toISOString()}&to=${now.toISOString()}`,
+          `${endpoints.compare}?${endpoints.compareParam}=${activeWords.map(encodeURIComponent).join(",")}&from=${from.toISOString()}&to=${now.toISOString()}`,
         );
         const json = await res.json();
         if (json.success && json.data) {
@@ -74,16 +101,30 @@ export default function Home() {
     }
   }, []);
 
-  // Re-fetch when words or time range change
+  // Re-fetch when words, time range or tab change
   useEffect(() => {
-    fetchChartData(words, timeRange);
-  }, [words, timeRange, fetchChartData]);
+    fetchChartData(words, timeRange, kind);
+  }, [words, timeRange, kind, fetchChartData]);
+
+  // Normalize terms the way the trends API does, since compare results are
+  // keyed by the normalized term; hashtags lose their leading "#"
+  function normalize(word: string): string {
+    return kind === "hashtags"
+      ? word.normalize("NFKC").trim().replace(/^#+/, "").toLowerCase()
+      : word.trim().toLowerCase();
+  }
+
+  function handleKindChange(nextKind: TrendKind) {
+    setKind(nextKind);
+    setWords([]);
+  }
 
   function handleSearch(word: string) {
-    setWords([word]);
+    setWords([normalize(word)]);
   }
 
-  function handleCompare(word: string) {
+  function handleCompare(input: string) {
+    const word = normalize(input);
     if (!words.includes(word)) {
       setWords((prev) => [...prev, word]);
     }
@@ -106,22 +147,28 @@ export default function Home() {
     }
   }
 
+  const itemName = kind === "hashtags" ? "hashtag" : "word";
+
   return (
     <div className="flex flex-col gap-4 p-4 min-h-screen">
       <StatsBar />
 
       <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-4 flex-1">
         <div className="flex flex-col gap-4">
+          <TrendTabs value={kind} onChange={handleKindChange} />
           <TimeRangeSelector value={timeRange} onChange={setTimeRange} />
-          <WordLengthFilter
-            minLength={minLength}
-            onMinLengthChange={setMinLength}
-          />
+          {kind === "words" && (
+            <WordLengthFilter
+              minLength={minLength}
+              onMinLengthChange={setMinLength}
+            />
+          )}
           <TrendingSidebar
             onWordClick={handleTrendingClick}
             activeWord={words.length === 1 ? words[0] : undefined}
             minutes={timeRange}
             minLength={minLength}
+            kind={kind}
           />
         </div>
         <div className="flex flex-col gap-4">
@@ -129,9 +176,16 @@ export default function Home() {
             onSearch={handleSearch}
             onCompare={handleCompare}
             currentWords={words}
+            itemName={itemName}
           />
           <CompareTags words={words} onRemove={handleRemoveWord} />
-          <TrendChart data={chartData} words={words} loading={loading} />
+          <TrendChart
+            data={chartData}
+            words={words}
+            loading={loading}
+            itemName={itemName}
+          />
+          <EmojiPanel minutes={timeRange} />
         </div>
       </div>
     </div>
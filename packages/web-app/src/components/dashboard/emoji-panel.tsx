@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface TrendingEmoji {
+  emoji: string;
+  total: string;
+}
+
+interface EmojiPanelProps {
+  minutes?: number;
+}
+
+export function EmojiPanel({ minutes = 5 }: EmojiPanelProps) {
+  const [emoji, setEmoji] = useState<TrendingEmoji[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchEmoji() {
+      try {
+        const params = new URLSearchParams({
+          minutes: minutes.toString(),
+          limit: "24",
+        });
+        const res = await fetch(`/api/trends/emoji/top?${params.toString()}`);
+        const json = await res.json();
+        if (json.success && json.data) {
+          setEmoji(json.data);
+        }
+      } catch {
+        // Fail silently
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchEmoji();
+    const interval = setInterval(fetchEmoji, 30000);
+    return () => clearInterval(interval);
+  }, [minutes]);
+
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <h3 className="text-sm font-medium text-muted-foreground mb-3">
+        Trending emoji (last {minutes}m)
+      </h3>
+      {loading ? (
+        <div className="grid grid-cols-4 sm:grid-cols-8 lg:grid-cols-12 gap-2">
+          {Array.from({ length: 12 }).map((_, i) => (
+            <div key={i} className="h-14 bg-muted rounded animate-pulse" />
+          ))}
+        </div>
+      ) : emoji.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No emoji in this time range yet.
+        </p>
+      ) : (
+        <div className="grid grid-cols-4 sm:grid-cols-8 lg:grid-cols-12 gap-2">
+          {emoji.map((item) => (
+            <div
+              key={item.emoji}
+              className="flex flex-col items-center justify-center rounded border py-2"
+            >
+              <span className="text-2xl leading-none">{item.emoji}</span>
+              <span className="mt-1 text-xs text-muted-foreground">
+                {Number(item.total).toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
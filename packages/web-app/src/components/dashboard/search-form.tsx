@@ -6,9 +6,15 @@ interface SearchFormProps {
   onSearch: (word: string) => void;
   onCompare: (word: string) => void;
   currentWords: string[];
+  itemName?: string;
 }
 
-export function SearchForm({ onSearch, onCompare, currentWords }: SearchFormProps) {
+export function SearchForm({
+  onSearch,
+  onCompare,
+  currentWords,
+  itemName = "word",
+}: SearchFormProps) {
   const [input, setInput] = useState("");
 
   function handleSubmit(e: FormEvent) {
@@ -34,7 +40,7 @@ export function SearchForm({ onSearch, onCompare, currentWords }: SearchFormProp
         type="text"
         value={input}
         onChange={(e) => setInput(e.target.value)}
-        placeholder="Search for a word..."
+        placeholder={`Search for a ${itemName}...`}
         className="flex-1 rounded-md border bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
       />
       <button
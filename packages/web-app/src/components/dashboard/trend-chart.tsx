@@ -29,6 +29,7 @@ interface TrendChartProps {
   data: ChartDataPoint[];
   words: string[];
   loading?: boolean;
+  itemName?: string;
 }
 
 function formatTime(timeStr: string): string {
@@ -36,7 +37,12 @@ function formatTime(timeStr: string): string {
   return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 }
 
-export function TrendChart({ data, words, loading }: TrendChartProps) {
+export function TrendChart({
+  data,
+  words,
+  loading,
+  itemName = "word",
+}: TrendChartProps) {
   if (loading) {
     return (
       <div className="rounded-lg border bg-card p-4 h-80 flex items-center justify-center">
@@ -51,7 +57,8 @@ export function TrendChart({ data, words, loading }: TrendChartProps) {
     return (
       <div className="rounded-lg border bg-card p-4 h-80 flex items-center justify-center">
         <p className="text-sm text-muted-foreground">
-          Search for a word or click a trending word to see its trend over time.
+          Search for a {itemName} or click a trending {itemName} to see its
+          trend over time.
         </p>
       </div>
     );
@@ -61,7 +68,7 @@ export function TrendChart({ data, words, loading }: TrendChartProps) {
     return (
       <div className="rounded-lg border bg-card p-4 h-80 flex items-center justify-center">
         <p className="text-sm text-muted-foreground">
-          No data found for the selected word(s) in this time range.
+          No data found for the selected {itemName}(s) in this time range.
         </p>
       </div>
     );
@@ -0,0 +1,36 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+
+export type TrendKind = "words" | "hashtags";
+
+const TREND_TABS: { label: string; kind: TrendKind }[] = [
+  { label: "Words", kind: "words" },
+  { label: "Hashtags", kind: "hashtags" },
+];
+
+interface TrendTabsProps {
+  value: TrendKind;
+  onChange: (kind: TrendKind) => void;
+}
+
+export function TrendTabs({ value, onChange }: TrendTabsProps) {
+  return (
+    <div className="flex gap-1 rounded-lg border bg-card p-1">
+      {TREND_TABS.map((tab) => (
+        <button
+          key={tab.kind}
+          onClick={() => onChange(tab.kind)}
+          className={cn(
+            "flex-1 px-3 py-1 rounded-md text-sm font-medium transition-colors",
+            value === tab.kind
+              ? "bg-primary text-primary-foreground"
+              : "text-muted-foreground hover:text-foreground hover:bg-accent",
+          )}
+        >
+          {tab.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -2,17 +2,29 @@
 
 import { useEffect, useState } from "react";
 import { cn } from "@/lib/utils";
+import type { TrendKind } from "@/components/dashboard/trend-tabs";
 
 interface TrendingWord {
   word: string;
   total: string;
 }
 
+interface TrendingHashtag {
+  hashtag: string;
+  total: string;
+}
+
+const TOP_ENDPOINTS: Record<TrendKind, string> = {
+  words: "/api/trends/top",
+  hashtags: "/api/trends/hashtags/top",
+};
+
 interface TrendingSidebarProps {
   onWordClick: (word: string) => void;
   activeWord?: string;
   minutes?: number;
   minLength?: number | null;
+  kind?: TrendKind;
 }
 
 export function TrendingSidebar({
@@ -20,6 +32,7 @@ export function TrendingSidebar({
   activeWord,
   minutes = 5,
   minLength = null,
+  kind = "words",
 }: TrendingSidebarProps) {
   const [words, setWords] = useState<TrendingWord[]>([]);
   const [loading, setLoading] = useState(true);
@@ -31,13 +44,20 @@ export function TrendingSidebar({
           minutes: minutes.toString(),
           limit: "15",
         });
-        if (minLength !== null) {
+        if (kind === "words" && minLength !== null) {
           params.append("minLength", minLength.toString());
         }
-        const res = await fetch(`/api/trends/top?${params.toString()}`);
+        const res = await fetch(`${TOP_ENDPOINTS[kind]}?${params.toString()}`);
         const json = await res.json();
         if (json.success && json.data) {
-          setWords(json.data);
+          setWords(
+            kind === "hashtags"
+              ? json.data.map((d: TrendingHashtag) => ({
+                  word: d.hashtag,
+                  total: d.total,
+                }))
+              : json.data,
+          );
         }
       } catch {
         // Fail silently
@@ -48,12 +68,12 @@ export function TrendingSidebar({
     fetchTrending();
     const interval = setInterval(fetchTrending, 30000);
     return () => clearInterval(interval);
-  }, [minutes, minLength]);
+  }, [minutes, minLength, kind]);
 
   return (
     <div className="rounded-lg border bg-card p-4 h-full flex flex-col">
       <h3 className="text-sm font-medium text-muted-foreground mb-3">
-        Trending (last {minutes}m)
+        Trending {kind === "hashtags" ? "hashtags " : ""}(last {minutes}m)
       </h3>
       {loading ? (
         <div className="space-y-2">
@@ -81,7 +101,10 @@ export function TrendingSidebar({
                 <span className="text-xs text-muted-foreground w-5 text-right">
                   {index + 1}.
                 </span>
-                <span>{item.word}</span>
+                <span>
+                  {kind === "hashtags" ? "#" : ""}
+                  {item.word}
+                </span>
               </span>
               <span className="text-xs text-muted-foreground">
                 {Number(item.total).toLocaleString()}